@@ -0,0 +1,287 @@
+const fs = require('fs');
+const path = require('path');
+const YAML = require('yaml');
+const docker = require('./docker');
+const systemd = require('./systemd');
+
+// Collectors that can be switched off; CPU, memory and uptime are always sampled
+const COLLECTORS = ['network', 'diskIO', 'disk', 'sensors', 'processes', 'containers', 'services'];
+
+// Deployment roles: 'hub' also collects metrics pushed by agents, 'agent' pushes its
+// own metrics to hubUrl
+const ROLES = ['standalone', 'hub', 'agent'];
+
+// Printed as-is by --check-config otherwise
+const SECRET_OPTIONS = ['adminPassword', 'agentToken'];
+
+// Files looked up next to index.js when no --config / CONFIG_FILE is given
+const DEFAULT_FILES = ['config.yaml', 'config.yml', 'config.json'];
+
+const DEFAULT_CONFIG = {
+  port: 3001,
+  // Bind address; unset listens on every IPv6 and IPv4 address
+  host: null,
+  dbPath: 'history.db',
+  corsOrigins: ['*'],
+  // Serve HTTPS when both are set
+  tls: { cert: null, key: null },
+  // Seconds between runs. processes / containers / services apply while a dashboard
+  // shows them; otherwise they are sampled once per history interval.
+  intervals: {
+    fast: 1,
+    network: 1,
+    diskIO: 1,
+    disk: 10,
+    sensors: 5,
+    processes: 5,
+    containers: 10,
+    services: 10,
+    history: 60,
+    cleanup: 3600
+  },
+  // Default days of data kept per tier, until changed in the dashboard settings
+  retention: { raw: 7, '5m': 90, '1h': 365 },
+  collectors: [...COLLECTORS],
+  role: 'standalone',
+  // Agent role: the hub's address and the token issued when adding the node there
+  hubUrl: null,
+  agentToken: null,
+  // Replaces the stored admin password when set; otherwise one is generated on first start
+  adminPassword: null,
+  // systemd units to watch until the dashboard setting is saved
+  systemdUnits: [],
+  dockerSocket: docker.DEFAULT_SOCKET
+};
+
+// Smallest allowed interval per key, in seconds
+const MIN_INTERVALS = { history: 10, cleanup: 60 };
+// Raw history is kept in one-minute buckets
+const MAX_HISTORY_INTERVAL = 60;
+
+const upperSnake = (name) => name.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+const kebab = (name) => name.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
+
+// Options that can be set from the environment or the command line, which take
+// precedence over the file in that order
+const OVERRIDES = [
+  { key: 'port', env: 'PORT', flag: 'port', type: 'number' },
+  { key: 'host', env: 'HOST', flag: 'host', type: 'optional' },
+  { key: 'dbPath', env: 'DB_PATH', flag: 'db-path', type: 'path' },
+  { key: 'corsOrigins', env: 'CORS_ORIGINS', flag: 'cors-origins', type: 'list' },
+  { key: 'tls.cert', env: 'TLS_CERT', flag: 'tls-cert', type: 'path' },
+  { key: 'tls.key', env: 'TLS_KEY', flag: 'tls-key', type: 'path' },
+  { key: 'collectors', env: 'COLLECTORS', flag: 'collectors', type: 'list' },
+  { key: 'role', env: 'ROLE', flag: 'role', type: 'string' },
+  { key: 'hubUrl', env: 'HUB_URL', flag: 'hub-url', type: 'optional' },
+  { key: 'agentToken', env: 'AGENT_TOKEN', flag: 'agent-token', type: 'optional' },
+  { key: 'adminPassword', env: 'ADMIN_PASSWORD', flag: 'admin-password', type: 'optional' },
+  { key: 'systemdUnits', env: 'SYSTEMD_UNITS', flag: 'systemd-units', type: 'list' },
+  { key: 'dockerSocket', env: 'DOCKER_SOCKET', flag: 'docker-socket', type: 'path' },
+  ...Object.keys(DEFAULT_CONFIG.intervals).map(name => ({
+    key: `intervals.${name}`, env: `INTERVAL_${upperSnake(name)}`, flag: `interval-${kebab(name)}`, type: 'number'
+  })),
+  ...Object.keys(DEFAULT_CONFIG.retention).map(tier => ({
+    key: `retention.${tier}`, env: `RETENTION_${tier.toUpperCase()}`, flag: `retention-${tier}`, type: 'number'
+  }))
+];
+
+// Flags handled elsewhere that take no value
+const SWITCHES = ['check-config', 'set-password'];
+
+function parseValue(value, type) {
+  if (type === 'number') return value.trim() === '' ? NaN : Number(value);
+  if (type === 'list') return value.split(',').map(item => item.trim()).filter(Boolean);
+  if (type === 'path' || type === 'optional') return value === '' ? null : value;
+  return value;
+}
+
+function setPath(target, key, value) {
+  const parts = key.split('.');
+  const last = parts.pop();
+  const parent = parts.reduce((obj, part) => obj[part], target);
+  parent[last] = value;
+}
+
+// `--name value` and `--name=value`
+function parseArgs(argv) {
+  const flags = {};
+  const errors = [];
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([\w-]+)(?:=(.*))?$/);
+    if (!match) {
+      errors.push(`unexpected argument: ${argv[i]}`);
+      continue;
+    }
+    const [, name, inline] = match;
+    if (SWITCHES.includes(name)) continue;
+    if (name !== 'config' && !OVERRIDES.some(o => o.flag === name)) {
+      errors.push(`unknown option: --${name}`);
+      continue;
+    }
+    const value = inline ?? argv[i + 1];
+    if (value === undefined) {
+      errors.push(`missing value for --${name}`);
+      continue;
+    }
+    if (inline === undefined) i++;
+    flags[name] = value;
+  }
+  return { flags, errors };
+}
+
+function readConfigFile(file) {
+  const text = fs.readFileSync(file, 'utf8');
+  const parsed = file.endsWith('.json') ? JSON.parse(text) : YAML.parse(text);
+  return parsed ?? {};
+}
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// File values over the defaults: objects merge key by key, everything else replaces.
+// Keys the defaults do not have are reported instead of merged.
+function merge(defaults, overrides, prefix, errors) {
+  const result = { ...defaults };
+  for (const [key, value] of Object.entries(overrides)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (!(key in defaults)) {
+      errors.push(`unknown option: ${name}`);
+    } else if (isPlainObject(defaults[key])) {
+      if (isPlainObject(value)) result[key] = merge(defaults[key], value, name, errors);
+      else errors.push(`${name}: expected an object`);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function validateConfig(config) {
+  const errors = [];
+  const isStringList = (value) => Array.isArray(value) && value.every(item => typeof item === 'string' && item);
+
+  if (!Number.isInteger(config.port) || config.port < 1 || config.port > 65535) {
+    errors.push('port: expected an integer between 1 and 65535');
+  }
+  if (config.host !== null && (typeof config.host !== 'string' || !config.host)) errors.push('host: expected an address');
+  if (typeof config.dbPath !== 'string' || !config.dbPath) errors.push('dbPath: expected a file path');
+  if (!isStringList(config.corsOrigins) || config.corsOrigins.length === 0) {
+    errors.push('corsOrigins: expected a list of origins, or ["*"]');
+  }
+
+  const { cert, key } = config.tls;
+  if ((cert == null) !== (key == null)) {
+    errors.push('tls: cert and key must be set together');
+  }
+  for (const [name, file] of Object.entries({ cert, key })) {
+    if (file == null) continue;
+    if (typeof file !== 'string') {
+      errors.push(`tls.${name}: expected a file path`);
+      continue;
+    }
+    try {
+      fs.accessSync(file, fs.constants.R_OK);
+    } catch {
+      errors.push(`tls.${name}: cannot read ${file}`);
+    }
+  }
+
+  for (const [name, seconds] of Object.entries(config.intervals)) {
+    const min = MIN_INTERVALS[name] ?? 1;
+    if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < min) {
+      errors.push(`intervals.${name}: expected a number of seconds, at least ${min}`);
+    }
+  }
+  if (config.intervals.history > MAX_HISTORY_INTERVAL) {
+    errors.push(`intervals.history: at most ${MAX_HISTORY_INTERVAL} seconds`);
+  }
+
+  for (const [tier, days] of Object.entries(config.retention)) {
+    if (!Number.isInteger(days) || days < 1) errors.push(`retention.${tier}: expected a whole number of days, at least 1`);
+  }
+
+  if (!isStringList(config.collectors)) {
+    errors.push('collectors: expected a list of collector names');
+  } else {
+    const unknown = config.collectors.filter(name => !COLLECTORS.includes(name));
+    if (unknown.length > 0) errors.push(`collectors: unknown ${unknown.join(', ')} (available: ${COLLECTORS.join(', ')})`);
+  }
+
+  if (!ROLES.includes(config.role)) errors.push(`role: expected one of ${ROLES.join(', ')}`);
+  if (config.hubUrl != null) {
+    let protocol = null;
+    try {
+      ({ protocol } = new URL(config.hubUrl));
+    } catch {
+      // reported below
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') errors.push('hubUrl: expected an http or https URL');
+  }
+  if (config.role === 'agent') {
+    if (config.hubUrl == null) errors.push('hubUrl: required when role is agent');
+    if (config.agentToken == null) errors.push('agentToken: required when role is agent');
+  }
+  for (const name of ['agentToken', 'adminPassword']) {
+    if (config[name] != null && (typeof config[name] !== 'string' || !config[name])) errors.push(`${name}: expected a string`);
+  }
+
+  if (!isStringList(config.systemdUnits)) {
+    errors.push('systemdUnits: expected a list of unit names');
+  } else {
+    const invalid = config.systemdUnits.filter(name => !systemd.isValidUnitName(name));
+    if (invalid.length > 0) errors.push(`systemdUnits: invalid unit names ${invalid.join(', ')}`);
+  }
+  if (typeof config.dockerSocket !== 'string' || !config.dockerSocket) errors.push('dockerSocket: expected a socket path');
+  return errors;
+}
+
+// Resolve the configuration: defaults, then the config file, then environment
+// variables, then command-line flags. Relative paths are resolved against `baseDir`.
+// Throws with every problem found when the result is invalid.
+function loadConfig({ argv = process.argv.slice(2), env = process.env, baseDir = __dirname } = {}) {
+  const { flags, errors } = parseArgs(argv);
+
+  const explicitFile = flags.config || env.CONFIG_FILE;
+  const file = explicitFile
+    ? path.resolve(baseDir, explicitFile)
+    : DEFAULT_FILES.map(name => path.join(baseDir, name)).find(candidate => fs.existsSync(candidate)) || null;
+
+  let config = structuredClone(DEFAULT_CONFIG);
+  if (file) {
+    try {
+      const parsed = readConfigFile(file);
+      if (isPlainObject(parsed)) config = merge(config, parsed, '', errors);
+      else errors.push(`${file}: expected a mapping of options`);
+    } catch (e) {
+      errors.push(`${file}: ${e.message}`);
+    }
+  }
+
+  for (const override of OVERRIDES) {
+    const value = flags[override.flag] ?? env[override.env];
+    if (value !== undefined) setPath(config, override.key, parseValue(value, override.type));
+  }
+
+  const resolvePath = (value) => (typeof value === 'string' && value ? path.resolve(baseDir, value) : value);
+  config.dbPath = resolvePath(config.dbPath);
+  config.tls = { cert: resolvePath(config.tls.cert), key: resolvePath(config.tls.key) };
+  config.dockerSocket = resolvePath(config.dockerSocket);
+
+  if (errors.length === 0) errors.push(...validateConfig(config));
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return { config, file };
+}
+
+function formatConfig(config) {
+  const masked = Object.fromEntries(SECRET_OPTIONS.filter(key => config[key] != null).map(key => [key, '********']));
+  return YAML.stringify({ ...config, ...masked });
+}
+
+module.exports = {
+  COLLECTORS,
+  ROLES,
+  DEFAULT_CONFIG,
+  loadConfig,
+  formatConfig
+};
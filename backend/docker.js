@@ -0,0 +1,84 @@
+const http = require('http');
+
+const DEFAULT_SOCKET = '/var/run/docker.sock';
+const REQUEST_TIMEOUT_MS = 5000;
+
+// GET a Docker Engine API path over the unix socket and parse the JSON body
+function dockerGet(socketPath, apiPath) {
+  return new Promise((resolve, reject) => {
+    const req = http.get({ socketPath, path: apiPath, timeout: REQUEST_TIMEOUT_MS }, (res) => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => { body += chunk; });
+      res.on('end', () => {
+        if (res.statusCode < 200 || res.statusCode >= 300) {
+          return reject(new Error(`Docker API ${apiPath}: HTTP ${res.statusCode}`));
+        }
+        try {
+          resolve(JSON.parse(body));
+        } catch {
+          reject(new Error(`Docker API ${apiPath}: invalid JSON`));
+        }
+      });
+    });
+    req.on('timeout', () => req.destroy(new Error(`Docker API ${apiPath}: timed out`)));
+    req.on('error', reject);
+  });
+}
+
+// CPU usage relative to the whole host, scaled so one busy core = 100%
+function cpuPercent(stats) {
+  const cpu = stats.cpu_stats || {};
+  const precpu = stats.precpu_stats || {};
+  const cpuDelta = (cpu.cpu_usage?.total_usage || 0) - (precpu.cpu_usage?.total_usage || 0);
+  const systemDelta = (cpu.system_cpu_usage || 0) - (precpu.system_cpu_usage || 0);
+  const cpus = cpu.online_cpus || cpu.cpu_usage?.percpu_usage?.length || 1;
+  if (cpuDelta <= 0 || systemDelta <= 0) return 0;
+  return (cpuDelta / systemDelta) * cpus * 100;
+}
+
+// Working set as reported by `docker stats`: usage minus reclaimable page cache
+function memoryUsage(stats) {
+  const memory = stats.memory_stats || {};
+  const cache = memory.stats?.inactive_file ?? memory.stats?.total_inactive_file ?? memory.stats?.cache ?? 0;
+  return Math.max((memory.usage || 0) - cache, 0);
+}
+
+function networkTotals(stats) {
+  return Object.values(stats.networks || {}).reduce(
+    (acc, n) => ({ rx: acc.rx + (n.rx_bytes || 0), tx: acc.tx + (n.tx_bytes || 0) }),
+    { rx: 0, tx: 0 }
+  );
+}
+
+// List all containers with resource usage. Stats are only read for running containers;
+// network counters are cumulative bytes, rates are derived by the caller.
+async function getContainers(socketPath = DEFAULT_SOCKET) {
+  const containers = await dockerGet(socketPath, '/containers/json?all=1');
+  return Promise.all(containers.map(async (c) => {
+    const running = c.State === 'running';
+    const [inspect, stats] = await Promise.all([
+      dockerGet(socketPath, `/containers/${c.Id}/json`).catch(() => null),
+      running ? dockerGet(socketPath, `/containers/${c.Id}/stats?stream=false`).catch(() => null) : null
+    ]);
+    const network = stats ? networkTotals(stats) : null;
+    return {
+      id: c.Id.slice(0, 12),
+      name: (c.Names?.[0] || c.Id.slice(0, 12)).replace(/^\//, ''),
+      image: c.Image,
+      state: c.State,
+      status: c.Status,
+      restartCount: inspect?.RestartCount ?? 0,
+      cpu: stats ? cpuPercent(stats) : null,
+      mem: stats ? memoryUsage(stats) : null,
+      memLimit: stats?.memory_stats?.limit ?? null,
+      rxBytes: network?.rx ?? null,
+      txBytes: network?.tx ?? null
+    };
+  }));
+}
+
+module.exports = {
+  DEFAULT_SOCKET,
+  getContainers
+};
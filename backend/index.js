@@ -1,17 +1,83 @@
+// @ts-check
 const express = require('express');
 const http = require('http');
+const https = require('https');
 const { Server } = require('socket.io');
+const { io: connectToHub } = require('socket.io-client');
 const si = require('systeminformation');
 const cors = require('cors');
 const Database = require('better-sqlite3');
 const path = require('path');
+const os = require('os');
+const crypto = require('crypto');
+const fs = require('fs');
+const { NOTIFIERS, renderTemplate, sendWithRetry } = require('./notifiers');
+const { PROBES, runProbe } = require('./probes');
+const docker = require('./docker');
+const systemd = require('./systemd');
+const { createSpool } = require('./spool');
+const { COLLECTORS, loadConfig, formatConfig } = require('./config');
+const protocol = require('../shared/protocol.json');
+
+/** @typedef {import('../shared/protocol').ServerToClientEvents} ServerToClientEvents */
+/** @typedef {import('../shared/protocol').ClientToServerEvents} ClientToServerEvents */
+/** @typedef {import('../shared/protocol').AgentToHubEvents} AgentToHubEvents */
+/** @typedef {import('../shared/protocol').HubToAgentEvents} HubToAgentEvents */
+/** @typedef {import('../shared/protocol').Metrics} Metrics */
+/** @typedef {import('../shared/protocol').Role} Role */
+
+// Version of the socket / REST payloads in ../shared; peers that do not send one predate the handshake
+const PROTOCOL_VERSION = protocol.version;
+const LEGACY_PROTOCOL_VERSION = 1;
+
+// Ports, paths, intervals and collectors from config.yaml, the environment and
+// command-line flags (see config.js). Reloaded on SIGHUP.
+let config;
+let configFile;
+try {
+  ({ config, file: configFile } = loadConfig());
+} catch (e) {
+  console.error(e.message);
+  process.exit(1);
+}
+
+// `node index.js --check-config` prints the resolved configuration without starting
+if (process.argv.includes('--check-config')) {
+  console.log(`# ${configFile || 'No config file found, using defaults'}`);
+  process.stdout.write(formatConfig(config));
+  process.exit(0);
+}
+
+// Deployment role (one of ROLES, checked by loadConfig); changing it takes a restart
+const ROLE = /** @type {Role} */ (config.role);
+// node_id of rows collected by this process
+const LOCAL_NODE_ID = 'local';
+
+// Checked on every request so a reloaded corsOrigins applies right away
+function corsOrigin(origin, callback) {
+  callback(null, config.corsOrigins.includes('*') || config.corsOrigins.includes(origin));
+}
 
 const app = express();
-app.use(cors());
+app.use(cors({ origin: corsOrigin }));
 app.use(express.json());
 
+// On a hub, /nodes/<id>/... serves the regular API for a remote node. Handlers read
+// req.nodeId to pick that node's data.
+app.use((req, res, next) => {
+  req.nodeId = LOCAL_NODE_ID;
+  const match = req.url.match(/^\/nodes\/([\w-]+)(\/.*)?$/);
+  if (!match) return next();
+  if (ROLE !== 'hub' || !remoteNodes.has(match[1])) {
+    return res.status(404).json({ error: "Unknown node" });
+  }
+  req.nodeId = match[1];
+  req.url = match[2] || '/';
+  next();
+});
+
 // Database setup
-const db = new Database(path.join(__dirname, 'history.db'));
+const db = new Database(config.dbPath);
 db.pragma('journal_mode = WAL');
 
 // Create tables
@@ -26,18 +92,503 @@ db.exec(`
     disk_usage REAL
   );
 
+  CREATE TABLE IF NOT EXISTS process_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+    pid INTEGER,
+    name TEXT,
+    user TEXT,
+    cpu REAL,
+    rss REAL,
+    command TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_process_history_timestamp ON process_history (timestamp);
+
+  CREATE TABLE IF NOT EXISTS network_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+    iface TEXT NOT NULL,
+    rx REAL,
+    tx REAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_network_history_iface ON network_history (iface, timestamp);
+
+  CREATE TABLE IF NOT EXISTS bandwidth_usage (
+    period_start TEXT NOT NULL,
+    iface TEXT NOT NULL,
+    rx_bytes INTEGER NOT NULL DEFAULT 0,
+    tx_bytes INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (period_start, iface)
+  );
+
+  -- Periods a node was unreachable; ended_at stays NULL while it is still down
+  CREATE TABLE IF NOT EXISTS outages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    node_id TEXT NOT NULL,
+    started_at DATETIME NOT NULL,
+    ended_at DATETIME,
+    reason TEXT NOT NULL DEFAULT 'offline'
+  );
+  CREATE INDEX IF NOT EXISTS idx_outages_node ON outages (node_id, started_at);
+
+  CREATE TABLE IF NOT EXISTS node_status (
+    node_id TEXT PRIMARY KEY,
+    boot_time DATETIME,
+    last_seen DATETIME,
+    tracking_since DATETIME NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS nodes (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_seen DATETIME
+  );
+
+  CREATE TABLE IF NOT EXISTS network_counters (
+    iface TEXT PRIMARY KEY,
+    rx_bytes INTEGER NOT NULL,
+    tx_bytes INTEGER NOT NULL,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
   CREATE TABLE IF NOT EXISTS settings (
     key TEXT PRIMARY KEY,
     value TEXT
   );
+
+  CREATE TABLE IF NOT EXISTS alert_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    target TEXT,
+    operator TEXT NOT NULL DEFAULT '>',
+    threshold REAL NOT NULL,
+    duration INTEGER NOT NULL DEFAULT 0,
+    hysteresis REAL NOT NULL DEFAULT 0,
+    enabled INTEGER NOT NULL DEFAULT 1
+  );
+
+  CREATE TABLE IF NOT EXISTS alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+    rule_id INTEGER,
+    rule_name TEXT,
+    state TEXT,
+    value REAL,
+    message TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS notification_channels (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    config TEXT NOT NULL DEFAULT '{}',
+    template TEXT,
+    rate_limit INTEGER NOT NULL DEFAULT 60,
+    enabled INTEGER NOT NULL DEFAULT 1
+  );
+
+  CREATE TABLE IF NOT EXISTS probes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    config TEXT NOT NULL DEFAULT '{}',
+    interval INTEGER NOT NULL DEFAULT 60,
+    enabled INTEGER NOT NULL DEFAULT 1
+  );
+
+  CREATE TABLE IF NOT EXISTS probe_results (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    probe_id INTEGER NOT NULL,
+    timestamp DATETIME NOT NULL,
+    success INTEGER NOT NULL,
+    latency REAL,
+    message TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_probe_results_probe ON probe_results (probe_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS auth_config (
+    key TEXT PRIMARY KEY,
+    value TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS auth_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    token_hash TEXT NOT NULL UNIQUE,
+    role TEXT NOT NULL,
+    name TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    expires_at DATETIME
+  );
+`);
+
+// Add columns introduced after a table was first created
+function ensureColumns(table, columns) {
+  const existing = new Set(db.prepare(`PRAGMA table_info(${table})`).all().map(c => c.name));
+  for (const [name, type] of Object.entries(columns)) {
+    if (!existing.has(name)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+  }
+}
+
+ensureColumns('metrics', {
+  load_1: 'REAL',
+  load_5: 'REAL',
+  load_15: 'REAL',
+  cpu_steal: 'REAL',
+  cpu_temp: 'REAL',
+  cpu_speed: 'REAL',
+  disk_read: 'REAL',
+  disk_write: 'REAL',
+  disk_iops: 'REAL',
+  disk_iowait: 'REAL'
+});
+db.exec('CREATE INDEX IF NOT EXISTS idx_metrics_timestamp ON metrics (timestamp)');
+
+// History rows are tagged with the node they belong to ('local' unless pushed by an agent)
+for (const table of ['metrics', 'network_history', 'process_history']) {
+  ensureColumns(table, { node_id: `TEXT NOT NULL DEFAULT '${LOCAL_NODE_ID}'` });
+}
+db.exec(`
+  CREATE INDEX IF NOT EXISTS idx_metrics_node ON metrics (node_id, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_network_history_node ON network_history (node_id, iface, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_process_history_node ON process_history (node_id, timestamp);
+`);
+
+// Per-container samples, keyed by name since IDs change whenever a container is recreated
+db.exec(`
+  CREATE TABLE IF NOT EXISTS container_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    node_id TEXT NOT NULL DEFAULT '${LOCAL_NODE_ID}',
+    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+    name TEXT NOT NULL,
+    image TEXT,
+    cpu REAL,
+    mem REAL,
+    rx REAL,
+    tx REAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_container_history_node ON container_history (node_id, name, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_container_history_timestamp ON container_history (timestamp);
+`);
+
+// systemd units entering or leaving the failed state
+db.exec(`
+  CREATE TABLE IF NOT EXISTS service_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    node_id TEXT NOT NULL DEFAULT '${LOCAL_NODE_ID}',
+    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+    unit TEXT NOT NULL,
+    state TEXT NOT NULL,
+    previous_state TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_service_events_node ON service_events (node_id, timestamp);
 `);
 
+// Downsampled history. Each tier is aggregated from the one before it and keeps the
+// average plus min/max of every metric column, so long ranges still show peaks.
+const ROLLUP_COLUMNS = [
+  'cpu_load', 'mem_percentage', 'net_rx', 'net_tx', 'disk_usage',
+  'load_1', 'load_5', 'load_15', 'cpu_steal', 'cpu_temp', 'cpu_speed',
+  'disk_read', 'disk_write', 'disk_iops', 'disk_iowait'
+];
+const NETWORK_ROLLUP_COLUMNS = ['rx', 'tx'];
+
+const HISTORY_TIERS = {
+  raw: { table: 'metrics', networkTable: 'network_history', seconds: 60 },
+  '5m': { table: 'metrics_5m', networkTable: 'network_history_5m', seconds: 300, source: 'raw' },
+  '1h': { table: 'metrics_1h', networkTable: 'network_history_1h', seconds: 3600, source: '5m' }
+};
+const ROLLUP_TIERS = ['5m', '1h'];
+
+const rollupColumnDefs = (columns) => columns.map(c => `${c} REAL, ${c}_min REAL, ${c}_max REAL`).join(',\n    ');
+for (const name of ROLLUP_TIERS) {
+  const tier = HISTORY_TIERS[name];
+  // Rollups created before nodes existed were keyed by timestamp alone. They are
+  // derived data, so drop them and let rollupHistory() rebuild them from raw rows.
+  for (const table of [tier.table, tier.networkTable]) {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all();
+    if (columns.length > 0 && !columns.some(c => c.name === 'node_id')) db.exec(`DROP TABLE ${table}`);
+  }
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${tier.table} (
+      node_id TEXT NOT NULL,
+      timestamp DATETIME NOT NULL,
+      ${rollupColumnDefs(ROLLUP_COLUMNS)},
+      PRIMARY KEY (node_id, timestamp)
+    );
+
+    CREATE TABLE IF NOT EXISTS ${tier.networkTable} (
+      node_id TEXT NOT NULL,
+      timestamp DATETIME NOT NULL,
+      iface TEXT NOT NULL,
+      ${rollupColumnDefs(NETWORK_ROLLUP_COLUMNS)},
+      PRIMARY KEY (node_id, iface, timestamp)
+    );
+  `);
+}
+
+
+// Read a single value from the settings table (values are stored as JSON)
+function getSetting(key, fallback) {
+  const row = db.prepare('SELECT value FROM settings WHERE key = ?').get(key);
+  if (!row) return fallback;
+  try {
+    return JSON.parse(row.value);
+  } catch (e) {
+    return row.value;
+  }
+}
+
+// Loopback, container bridges, veth pairs, tunnels etc. — excluded from totals by default
+const VIRTUAL_IFACE_PATTERN = /^(lo|docker\d*|br-|veth|virbr|vnet|cni|flannel|cali|tun|tap|kube|wg)/;
+
+function isVirtualIface(iface) {
+  return VIRTUAL_IFACE_PATTERN.test(iface);
+}
+
+// Interfaces that count towards the total rx/tx figures
+function getCountedInterfaces(network) {
+  if (getSetting('excludeVirtualIfaces', true) === false) return network;
+  return network.filter(n => !n.virtual);
+}
+
+// Metrics that alert rules can watch. `target` selects a filesystem / interface where relevant.
+const ALERT_METRICS = {
+  cpu: { label: 'CPU 负载', unit: '%' },
+  load: { label: '1 分钟平均负载', unit: '' },
+  steal: { label: 'CPU 窃取时间', unit: '%' },
+  mem: { label: '内存使用率', unit: '%' },
+  disk: { label: '磁盘使用率', unit: '%' },
+  iowait: { label: 'I/O 等待', unit: '%' },
+  net_rx: { label: '下载速率', unit: 'B/s' },
+  net_tx: { label: '上传速率', unit: 'B/s' },
+  bandwidth: { label: '预计月流量占配额', unit: '%' },
+  probe_failed: { label: '服务检查失败数', unit: '' },
+  probe_latency: { label: '服务检查延迟', unit: 'ms' }
+};
+const ALERT_OPERATORS = ['>', '<'];
+
+// --- Authentication ---
+// Admins log in with the password and get a session token; viewer tokens are
+// long-lived read-only tokens for sharing dashboards. Only token hashes are stored.
+const SESSION_TTL_DAYS = 30;
+const MAX_LOGIN_FAILURES = 5;
+const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+function verifyPassword(password, stored) {
+  const [salt, hash] = (stored || '').split(':');
+  if (!salt || !hash) return false;
+  const candidate = crypto.scryptSync(String(password), salt, 64);
+  const expected = Buffer.from(hash, 'hex');
+  return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+}
+
+function getAdminPasswordHash() {
+  return db.prepare("SELECT value FROM auth_config WHERE key = 'admin_password'").get()?.value;
+}
+
+function setAdminPassword(password) {
+  db.prepare("INSERT OR REPLACE INTO auth_config (key, value) VALUES ('admin_password', ?)").run(hashPassword(password));
+  // A new password signs out every existing admin session
+  db.prepare("DELETE FROM auth_tokens WHERE role = 'admin'").run();
+}
+
+// adminPassword (ADMIN_PASSWORD, set by install.sh) wins; otherwise generate one on first start
+function ensureAdminPassword() {
+  const stored = getAdminPasswordHash();
+  if (config.adminPassword) {
+    if (!verifyPassword(config.adminPassword, stored)) setAdminPassword(config.adminPassword);
+    return;
+  }
+  if (stored) return;
+
+  const generated = crypto.randomBytes(9).toString('base64url');
+  setAdminPassword(generated);
+  console.log(`No admin password configured, generated one: ${generated}`);
+}
+
+function createToken(role, name, ttlDays) {
+  const token = crypto.randomBytes(32).toString('hex');
+  // datetime('now', NULL) is NULL, i.e. the token never expires
+  const result = db.prepare(`
+    INSERT INTO auth_tokens (token_hash, role, name, expires_at)
+    VALUES (?, ?, ?, datetime('now', ?))
+  `).run(hashToken(token), role, name, ttlDays ? `+${ttlDays} days` : null);
+  return { id: result.lastInsertRowid, token };
+}
+
+function findSession(token) {
+  if (!token) return null;
+  return db.prepare(`
+    SELECT id, role, name FROM auth_tokens
+    WHERE token_hash = ? AND (expires_at IS NULL OR expires_at > datetime('now'))
+  `).get(hashToken(token)) || null;
+}
+
+// Bearer header, or ?token= for share links and plain download links
+function extractToken(req) {
+  const header = req.headers.authorization || '';
+  if (header.startsWith('Bearer ')) return header.slice(7).trim();
+  return typeof req.query.token === 'string' ? req.query.token : null;
+}
+
+const PUBLIC_API_PATHS = ['/auth/login', '/status'];
+
+function requireAuth(req, res, next) {
+  const session = findSession(extractToken(req));
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+  req.session = session;
+  next();
+}
+
+app.use('/api', (req, res, next) => {
+  if (PUBLIC_API_PATHS.includes(req.path)) return next();
+  requireAuth(req, res, next);
+});
+
+// Features backed by collectors in this process rather than stored history
+function localOnly(req, res, next) {
+  if (req.nodeId !== LOCAL_NODE_ID) {
+    return res.status(404).json({ error: "Not available for remote nodes" });
+  }
+  next();
+}
+app.use(['/api/alerts', '/api/bandwidth', '/api/nodes', '/api/probes', '/api/services/journal'], localOnly);
+
+function requireAdmin(req, res, next) {
+  if (req.session?.role !== 'admin') {
+    return res.status(403).json({ error: "Admin privileges required" });
+  }
+  next();
+}
+
+// Failed login attempts per client address: ip -> { count, first }
+const loginFailures = new Map();
+
+app.post('/api/auth/login', (req, res) => {
+  const ip = req.ip;
+  const failures = loginFailures.get(ip);
+  if (failures && Date.now() - failures.first > LOGIN_LOCKOUT_MS) loginFailures.delete(ip);
+  if (loginFailures.get(ip)?.count >= MAX_LOGIN_FAILURES) {
+    return res.status(429).json({ error: "Too many failed attempts, try again later" });
+  }
+
+  try {
+    const { password } = req.body || {};
+    if (!password || !verifyPassword(password, getAdminPasswordHash())) {
+      const entry = loginFailures.get(ip) || { count: 0, first: Date.now() };
+      entry.count++;
+      loginFailures.set(ip, entry);
+      return res.status(401).json({ error: "Invalid password" });
+    }
+
+    loginFailures.delete(ip);
+    const { token } = createToken('admin', 'session', SESSION_TTL_DAYS);
+    res.json({ token, role: 'admin' });
+  } catch (e) {
+    console.error("Login error:", e);
+    res.status(500).json({ error: "Failed to log in" });
+  }
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  try {
+    db.prepare('DELETE FROM auth_tokens WHERE id = ? AND role = ?').run(req.session.id, 'admin');
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Logout error:", e);
+    res.status(500).json({ error: "Failed to log out" });
+  }
+});
+
+app.get('/api/auth/me', (req, res) => {
+  res.json({ role: req.session.role, name: req.session.name });
+});
+
+app.post('/api/auth/password', requireAdmin, (req, res) => {
+  const { currentPassword, newPassword } = req.body || {};
+  if (!verifyPassword(currentPassword || '', getAdminPasswordHash())) {
+    return res.status(400).json({ error: "Current password is incorrect" });
+  }
+  if (typeof newPassword !== 'string' || newPassword.length < 6) {
+    return res.status(400).json({ error: "New password must be at least 6 characters" });
+  }
+
+  try {
+    setAdminPassword(newPassword);
+    const { token } = createToken('admin', 'session', SESSION_TTL_DAYS);
+    res.json({ token, role: 'admin' });
+  } catch (e) {
+    console.error("Change password error:", e);
+    res.status(500).json({ error: "Failed to change password" });
+  }
+});
+
+// API to list viewer tokens (the token itself is only returned once, on creation)
+app.get('/api/auth/tokens', requireAdmin, (req, res) => {
+  try {
+    const rows = db.prepare("SELECT id, name, created_at, expires_at FROM auth_tokens WHERE role = 'viewer' ORDER BY id ASC").all();
+    res.json(rows);
+  } catch (e) {
+    console.error("Error fetching tokens:", e);
+    res.status(500).json({ error: "Failed to fetch tokens" });
+  }
+});
+
+app.post('/api/auth/tokens', requireAdmin, (req, res) => {
+  const { name, expiresInDays } = req.body || {};
+  if (!name || typeof name !== 'string') return res.status(400).json({ error: "Token name is required" });
+  if (expiresInDays !== undefined && expiresInDays !== null && (typeof expiresInDays !== 'number' || expiresInDays <= 0)) {
+    return res.status(400).json({ error: "expiresInDays must be a positive number" });
+  }
+
+  try {
+    const { id, token } = createToken('viewer', name, expiresInDays);
+    const row = db.prepare('SELECT id, name, created_at, expires_at FROM auth_tokens WHERE id = ?').get(id);
+    res.json({ ...row, token });
+  } catch (e) {
+    console.error("Create token error:", e);
+    res.status(500).json({ error: "Failed to create token" });
+  }
+});
+
+app.delete('/api/auth/tokens/:id', requireAdmin, (req, res) => {
+  try {
+    db.prepare("DELETE FROM auth_tokens WHERE id = ? AND role = 'viewer'").run(req.params.id);
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Delete token error:", e);
+    res.status(500).json({ error: "Failed to delete token" });
+  }
+});
+
+// Settings a viewer token needs to render the dashboard. The rest (server URLs,
+// retention, status page config) is only returned to admins.
+const VIEWER_SETTINGS = [
+  'isDarkMode', 'themeColor', 'cardOpacity', 'maskOpacity', 'bgImage', 'netUnit',
+  'excludeVirtualIfaces', 'liveWindow', 'hubNodeMeta', 'serverOrder', 'systemdUnits'
+];
+
 // API to get settings
 app.get('/api/settings', (req, res) => {
   try {
+    const isAdmin = req.session?.role === 'admin';
     const rows = db.prepare('SELECT * FROM settings').all();
     const settings = {};
     rows.forEach(row => {
+      if (!isAdmin && !VIEWER_SETTINGS.includes(row.key)) return;
       try {
         settings[row.key] = JSON.parse(row.value);
       } catch (e) {
@@ -46,14 +597,18 @@ app.get('/api/settings', (req, res) => {
     });
     res.json(settings);
   } catch (e) {
+    console.error("Error fetching settings:", e);
     res.status(500).json({ error: "Failed to fetch settings" });
   }
 });
 
 // API to save settings
-app.post('/api/settings', (req, res) => {
+app.post('/api/settings', requireAdmin, (req, res) => {
+  const settings = req.body;
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return res.status(400).json({ error: "Settings must be a JSON object" });
+  }
   try {
-    const settings = req.body;
     const insert = db.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)');
     
     const transaction = db.transaction((data) => {
@@ -63,6 +618,7 @@ app.post('/api/settings', (req, res) => {
     });
     
     transaction(settings);
+    statusPageCache = null;
     res.json({ success: true });
   } catch (e) {
     console.error("Save settings error:", e);
@@ -70,82 +626,1405 @@ app.post('/api/settings', (req, res) => {
   }
 });
 
-// API to get history
-app.get('/api/history', (req, res) => {
-  try {
-    const range = req.query.range || '1h'; // default 1 hour
-    let timeFilter;
-    
-    switch(range) {
-      case '1h': timeFilter = "-1 hour"; break;
-      case '6h': timeFilter = "-6 hours"; break;
-      case '24h': timeFilter = "-24 hours"; break;
-      case '7d': timeFilter = "-7 days"; break;
-      default: timeFilter = "-1 hour";
+// Columns exposed by /api/history, keyed by their name in the metrics tables
+const HISTORY_FIELDS = {
+  cpu_load: 'cpu',
+  mem_percentage: 'mem',
+  net_rx: 'rx',
+  net_tx: 'tx',
+  disk_usage: 'disk',
+  load_1: 'load_1',
+  load_5: 'load_5',
+  load_15: 'load_15',
+  cpu_steal: 'steal',
+  cpu_temp: 'temp',
+  cpu_speed: 'speed',
+  disk_read: 'disk_read',
+  disk_write: 'disk_write',
+  disk_iops: 'disk_iops',
+  disk_iowait: 'iowait'
+};
+
+const HISTORY_RANGES = {
+  '1h': 3600,
+  '6h': 6 * 3600,
+  '24h': 24 * 3600,
+  '7d': 7 * 86400,
+  '30d': 30 * 86400,
+  '90d': 90 * 86400,
+  '1y': 365 * 86400
+};
+
+// Upper bound on points returned to the charts for any range
+const MAX_HISTORY_POINTS = 720;
+
+// Days of data kept per tier: the `retention` setting, else config.retention
+function getRetention() {
+  const stored = getSetting('retention', {}) || {};
+  const retention = { ...config.retention };
+  for (const name of Object.keys(config.retention)) {
+    const days = Number(stored[name]);
+    if (Number.isFinite(days) && days >= 1) retention[name] = days;
+  }
+  return retention;
+}
+
+// Pick the coarsest tier that is still fine enough for the range and whose retention
+// reaches back far enough, then group its rows into buckets of at most
+// MAX_HISTORY_POINTS. With `iface`, rx/tx come from that interface's own history.
+function queryHistory(from, to, iface, nodeId) {
+  const span = (to.getTime() - from.getTime()) / 1000;
+  const daysBack = (Date.now() - from.getTime()) / 86400000;
+  const wanted = Math.max(60, Math.ceil(span / MAX_HISTORY_POINTS / 60) * 60);
+  const retention = getRetention();
+
+  const candidates = Object.keys(HISTORY_TIERS).filter(name => HISTORY_TIERS[name].seconds <= wanted);
+  const tierName = [...candidates].reverse().find(name => retention[name] >= daysBack)
+    || candidates.reduce((best, name) => (retention[name] > retention[best] ? name : best));
+  const tier = HISTORY_TIERS[tierName];
+  const bucket = Math.ceil(wanted / tier.seconds) * tier.seconds;
+  const isRaw = tierName === 'raw';
+
+  const selects = Object.entries(HISTORY_FIELDS).map(([column, alias]) => {
+    const expr = (suffix) => {
+      const metricColumn = `m.${column}${isRaw ? '' : suffix}`;
+      if (column !== 'net_rx' && column !== 'net_tx') return metricColumn;
+      const networkColumn = `nh.${column === 'net_rx' ? 'rx' : 'tx'}${isRaw ? '' : suffix}`;
+      return `CASE WHEN @iface IS NULL THEN ${metricColumn} ELSE ${networkColumn} END`;
+    };
+    return `AVG(${expr('')}) as ${alias}, MIN(${expr('_min')}) as ${alias}_min, MAX(${expr('_max')}) as ${alias}_max`;
+  });
+
+  const timeFormat = span <= 86400 ? '%H:%M' : span <= 90 * 86400 ? '%m-%d %H:%M' : '%Y-%m-%d';
+
+  const rows = db.prepare(`
+    SELECT *, strftime(@timeFormat, datetime(timestamp, 'localtime')) as time FROM (
+      SELECT
+        datetime((CAST(strftime('%s', m.timestamp) AS INTEGER) / @bucket) * @bucket, 'unixepoch') as timestamp,
+        ${selects.join(',\n        ')}
+      FROM ${tier.table} m
+      LEFT JOIN ${tier.networkTable} nh
+        ON nh.node_id = m.node_id AND nh.timestamp = m.timestamp AND nh.iface = @iface
+      WHERE m.node_id = @nodeId AND m.timestamp >= @from AND m.timestamp <= @to
+      GROUP BY 1
+    )
+    ORDER BY timestamp ASC
+  `).all({
+    from: toSqliteTime(from),
+    to: toSqliteTime(to),
+    iface: iface || null,
+    nodeId,
+    bucket,
+    timeFormat
+  });
+  return withGaps(rows, bucket, timeFormat);
+}
+
+// Buckets without samples are simply missing from the query. Where more than
+// HISTORY_GAP_BUCKETS in a row are missing, insert a point without values so charts
+// draw a gap instead of joining the samples on either side.
+const HISTORY_GAP_BUCKETS = 2;
+
+function withGaps(rows, bucket, timeFormat) {
+  const formatTime = db.prepare("SELECT strftime(?, datetime(?, 'localtime')) as time");
+  const result = [];
+  rows.forEach((row, i) => {
+    const previous = rows[i - 1];
+    if (previous && fromSqliteTime(row.timestamp) - fromSqliteTime(previous.timestamp) > HISTORY_GAP_BUCKETS * bucket * 1000) {
+      const timestamp = toSqliteTime(new Date(fromSqliteTime(previous.timestamp) + bucket * 1000));
+      result.push({ timestamp, time: formatTime.get(timeFormat, timestamp).time });
     }
+    result.push(row);
+  });
+  return result;
+}
 
-    const rows = db.prepare(`
-      SELECT 
-        strftime('%H:%M', datetime(timestamp, 'localtime')) as time,
-        cpu_load as cpu,
-        mem_percentage as mem,
-        net_rx as rx,
-        net_tx as tx,
-        disk_usage as disk
-      FROM metrics 
-      WHERE timestamp > datetime('now', ?)
-      ORDER BY timestamp ASC
-    `).all(timeFilter);
-    
-    res.json(rows);
+// Accepts ISO 8601 strings or epoch milliseconds
+function parseTimeParam(value) {
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Time window for a named `range` or an explicit `from`/`to`; null when invalid
+function resolveTimeWindow(query) {
+  if (query.from) {
+    const from = parseTimeParam(query.from);
+    const to = query.to ? parseTimeParam(query.to) : new Date();
+    if (!from || !to || from >= to) return null;
+    return { from, to };
+  }
+  const span = HISTORY_RANGES[query.range] || HISTORY_RANGES['1h']; // default 1 hour
+  const to = new Date();
+  return { from: new Date(to.getTime() - span * 1000), to };
+}
+
+// API to get history, either for a named `range` or an explicit `from`/`to` window
+app.get('/api/history', (req, res) => {
+  try {
+    const timeWindow = resolveTimeWindow(req.query);
+    if (!timeWindow) return res.status(400).json({ error: "Invalid time range" });
+    res.json(queryHistory(timeWindow.from, timeWindow.to, req.query.iface, req.nodeId));
   } catch (e) {
     console.error("Error fetching history:", e);
     res.status(500).json({ error: "Failed to fetch history" });
   }
 });
 
-const server = http.createServer(app);
-const io = new Server(server, {
-  cors: {
-    origin: "*",
-    methods: ["GET", "POST"]
-  }
-});
+function escapeLabelValue(value) {
+  return String(value).replace(/[\\"\n]/g, c => (c === '\n' ? '\\n' : `\\${c}`));
+}
 
-let staticData = null;
-let latestMetrics = {
-  cpu: {},
-  memory: {},
-  network: [],
-  disk: [],
-  uptime: 0
+// OpenMetrics families for exported history columns, keyed by /api/history field name
+const EXPORT_METRICS = {
+  cpu: { name: 'vps_cpu_usage_percent', help: 'CPU usage' },
+  mem: { name: 'vps_memory_usage_percent', help: 'Memory usage' },
+  rx: { name: 'vps_network_receive_bytes_per_second', help: 'Network receive rate' },
+  tx: { name: 'vps_network_transmit_bytes_per_second', help: 'Network transmit rate' },
+  disk: { name: 'vps_disk_usage_percent', help: 'Root filesystem usage' },
+  load_1: { name: 'vps_load1', help: '1-minute load average' },
+  load_5: { name: 'vps_load5', help: '5-minute load average' },
+  load_15: { name: 'vps_load15', help: '15-minute load average' },
+  steal: { name: 'vps_cpu_steal_percent', help: 'CPU steal time' },
+  temp: { name: 'vps_cpu_temperature_celsius', help: 'CPU temperature' },
+  speed: { name: 'vps_cpu_frequency_ghz', help: 'Current CPU frequency' },
+  disk_read: { name: 'vps_disk_read_bytes_per_second', help: 'Disk read throughput' },
+  disk_write: { name: 'vps_disk_write_bytes_per_second', help: 'Disk write throughput' },
+  disk_iops: { name: 'vps_disk_iops', help: 'Disk operations per second' },
+  iowait: { name: 'vps_cpu_iowait_percent', help: 'CPU time waiting for I/O' }
 };
 
-async function getStaticData() {
-  if (staticData) return staticData;
+const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  prometheus: { contentType: 'application/openmetrics-text; version=1.0.0; charset=utf-8', extension: 'txt' }
+};
+
+const EXPORT_BATCH_SIZE = 1000;
+
+// Rows of a history table in timestamp order, read in batches with a keyset cursor so
+// large ranges never sit in memory and no statement stays open between writes
+function* readHistoryBatches(table, columns, from, to, nodeId) {
+  const stmt = db.prepare(`
+    SELECT rowid as _rowid, timestamp, ${columns.join(', ')} FROM ${table}
+    WHERE node_id = @nodeId AND timestamp <= @to
+      AND (timestamp > @timestamp OR (timestamp = @timestamp AND rowid > @rowid))
+    ORDER BY timestamp ASC, rowid ASC
+    LIMIT ${EXPORT_BATCH_SIZE}
+  `);
+  let cursor = { timestamp: toSqliteTime(from), rowid: -1 };
+  while (true) {
+    const rows = stmt.all({ ...cursor, to: toSqliteTime(to), nodeId });
+    if (rows.length === 0) return;
+    yield rows;
+    const last = rows[rows.length - 1];
+    cursor = { timestamp: last.timestamp, rowid: last._rowid };
+  }
+}
+
+// Resolves once the chunk is flushed (or the client went away)
+function writeChunk(res, chunk) {
+  if (res.write(chunk)) return Promise.resolve();
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+// API to export metric history as CSV, JSON or OpenMetrics text
+app.get('/api/export', async (req, res) => {
+  const timeWindow = resolveTimeWindow(req.query);
+  if (!timeWindow) return res.status(400).json({ error: "Invalid time range" });
+  const format = req.query.format || 'csv';
+  if (!EXPORT_FORMATS[format]) return res.status(400).json({ error: `Unknown format: ${format}` });
+  const fields = req.query.metrics ? String(req.query.metrics).split(',') : Object.keys(EXPORT_METRICS);
+  const unknown = fields.find(field => !EXPORT_METRICS[field]);
+  if (unknown) return res.status(400).json({ error: `Unknown metric: ${unknown}` });
+
+  // Finest tier whose retention still covers the start of the window
+  const retention = getRetention();
+  const daysBack = (Date.now() - timeWindow.from.getTime()) / 86400000;
+  const tier = HISTORY_TIERS[Object.keys(HISTORY_TIERS).find(name => retention[name] >= daysBack) || '1h'];
+  const columnFor = Object.fromEntries(Object.entries(HISTORY_FIELDS).map(([column, alias]) => [alias, column]));
+  const columns = fields.map(field => `${columnFor[field]} as ${field}`);
+  const isoTime = (timestamp) => `${timestamp.replace(' ', 'T')}Z`;
+
+  const { contentType, extension } = EXPORT_FORMATS[format];
+  const stamp = (date) => date.toISOString().slice(0, 16).replace(/[-:]/g, '');
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="vps-history-${stamp(timeWindow.from)}-${stamp(timeWindow.to)}.${extension}"`);
+
   try {
-    const [cpu] = await Promise.all([
-      si.cpu()
-    ]);
-    staticData = {
-      cpu: {
-        manufacturer: cpu.manufacturer,
-        brand: cpu.brand,
-        speed: cpu.speed,
-        cores: cpu.cores,
+    if (format === 'csv') {
+      await writeChunk(res, `timestamp,${fields.join(',')}\n`);
+      for (const rows of readHistoryBatches(tier.table, columns, timeWindow.from, timeWindow.to, req.nodeId)) {
+        if (res.destroyed) return;
+        await writeChunk(res, rows.map(row =>
+          [isoTime(row.timestamp), ...fields.map(field => row[field] ?? '')].join(',')
+        ).join('\n') + '\n');
       }
-    };
-    return staticData;
+    } else if (format === 'json') {
+      let first = true;
+      await writeChunk(res, '[');
+      for (const rows of readHistoryBatches(tier.table, columns, timeWindow.from, timeWindow.to, req.nodeId)) {
+        if (res.destroyed) return;
+        const items = rows.map(row => {
+          const item = { timestamp: isoTime(row.timestamp) };
+          fields.forEach(field => { item[field] = row[field]; });
+          return JSON.stringify(item);
+        });
+        await writeChunk(res, (first ? '\n' : ',\n') + items.join(',\n'));
+        first = false;
+      }
+      await writeChunk(res, '\n]\n');
+    } else {
+      // Samples of one family must be contiguous, so each metric is a separate pass
+      const labels = `{host="${escapeLabelValue(nodeName(req.nodeId))}"}`;
+      for (const field of fields) {
+        const { name, help } = EXPORT_METRICS[field];
+        await writeChunk(res, `# HELP ${name} ${help}\n# TYPE ${name} gauge\n`);
+        for (const rows of readHistoryBatches(tier.table, [`${columnFor[field]} as ${field}`], timeWindow.from, timeWindow.to, req.nodeId)) {
+          if (res.destroyed) return;
+          const lines = rows
+            .filter(row => row[field] !== null)
+            .map(row => `${name}${labels} ${row[field]} ${Date.parse(isoTime(row.timestamp)) / 1000}\n`);
+          if (lines.length > 0) await writeChunk(res, lines.join(''));
+        }
+      }
+      await writeChunk(res, '# EOF\n');
+    }
+    res.end();
   } catch (e) {
-    console.error("Error getting static data:", e);
-    return { cpu: {} };
+    console.error("Error exporting history:", e);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Failed to export history" });
+    } else {
+      res.end();
+    }
   }
-}
+});
 
-// Separate update functions for different types of data
-async function updateFastMetrics() {
+// API for monthly bandwidth usage of the current billing period
+app.get('/api/bandwidth', (req, res) => {
   try {
-    const [mem, load, time] = await Promise.all([
+    res.json(getBandwidthSummary());
+  } catch (e) {
+    console.error("Error fetching bandwidth usage:", e);
+    res.status(500).json({ error: "Failed to fetch bandwidth usage" });
+  }
+});
+
+// API to list interfaces that have recorded history
+app.get('/api/history/interfaces', (req, res) => {
+  try {
+    const rows = db.prepare(`
+      SELECT DISTINCT iface FROM network_history
+      WHERE node_id = ? AND timestamp > datetime('now', '-7 days')
+      ORDER BY iface ASC
+    `).all(req.nodeId);
+    res.json(rows.map(row => ({ iface: row.iface, virtual: isVirtualIface(row.iface) })));
+  } catch (e) {
+    console.error("Error fetching interfaces:", e);
+    res.status(500).json({ error: "Failed to fetch interfaces" });
+  }
+});
+
+function formatRule(row) {
+  const state = alertStates.get(row.id);
+  return {
+    ...row,
+    enabled: !!row.enabled,
+    state: state ? state.state : 'ok'
+  };
+}
+
+function validateRule(body) {
+  if (!body.name || typeof body.name !== 'string') return 'Rule name is required';
+  if (!ALERT_METRICS[body.metric]) return `Unknown metric: ${body.metric}`;
+  if (!ALERT_OPERATORS.includes(body.operator)) return `Unknown operator: ${body.operator}`;
+  if (typeof body.threshold !== 'number' || Number.isNaN(body.threshold)) return 'Threshold must be a number';
+  if (body.duration !== undefined && (typeof body.duration !== 'number' || body.duration < 0)) return 'Duration must be a non-negative number of seconds';
+  if (body.hysteresis !== undefined && (typeof body.hysteresis !== 'number' || body.hysteresis < 0)) return 'Hysteresis must be a non-negative number';
+  return null;
+}
+
+// API to list alert rules
+app.get('/api/alerts/rules', (req, res) => {
+  try {
+    const rows = db.prepare('SELECT * FROM alert_rules ORDER BY id ASC').all();
+    res.json(rows.map(formatRule));
+  } catch (e) {
+    console.error("Error fetching alert rules:", e);
+    res.status(500).json({ error: "Failed to fetch alert rules" });
+  }
+});
+
+// API to create an alert rule
+app.post('/api/alerts/rules', requireAdmin, (req, res) => {
+  const error = validateRule(req.body || {});
+  if (error) return res.status(400).json({ error });
+
+  try {
+    const { name, metric, target, operator, threshold, duration = 0, hysteresis = 0, enabled = true } = req.body || {};
+    const result = db.prepare(`
+      INSERT INTO alert_rules (name, metric, target, operator, threshold, duration, hysteresis, enabled)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(name, metric, target || null, operator, threshold, duration, hysteresis, enabled ? 1 : 0);
+    const row = db.prepare('SELECT * FROM alert_rules WHERE id = ?').get(result.lastInsertRowid);
+    res.json(formatRule(row));
+  } catch (e) {
+    console.error("Create alert rule error:", e);
+    res.status(500).json({ error: "Failed to create alert rule" });
+  }
+});
+
+// API to update an alert rule
+app.put('/api/alerts/rules/:id', requireAdmin, (req, res) => {
+  try {
+    const existing = db.prepare('SELECT * FROM alert_rules WHERE id = ?').get(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Alert rule not found" });
+
+    const merged = { ...existing, enabled: !!existing.enabled, ...req.body };
+    const error = validateRule(merged);
+    if (error) return res.status(400).json({ error });
+
+    db.prepare(`
+      UPDATE alert_rules
+      SET name = ?, metric = ?, target = ?, operator = ?, threshold = ?, duration = ?, hysteresis = ?, enabled = ?
+      WHERE id = ?
+    `).run(
+      merged.name, merged.metric, merged.target || null, merged.operator,
+      merged.threshold, merged.duration, merged.hysteresis, merged.enabled ? 1 : 0,
+      existing.id
+    );
+
+    // Re-evaluate from scratch so a changed threshold doesn't inherit a stale pending timer.
+    // A firing alert is resolved when the rule is disabled or its condition changes, since
+    // evaluation would otherwise never see it recover.
+    if (alertStates.get(existing.id)?.state !== 'firing') {
+      alertStates.delete(existing.id);
+    } else if (!merged.enabled) {
+      resolveAlert(existing, '规则已停用，告警结束');
+    } else if (RULE_CONDITION_FIELDS.some(field => String(existing[field] ?? '') !== String(merged[field] ?? ''))) {
+      resolveAlert(existing, '规则条件已修改，告警结束');
+    }
+
+    res.json(formatRule(db.prepare('SELECT * FROM alert_rules WHERE id = ?').get(existing.id)));
+  } catch (e) {
+    console.error("Update alert rule error:", e);
+    res.status(500).json({ error: "Failed to update alert rule" });
+  }
+});
+
+// API to delete an alert rule
+app.delete('/api/alerts/rules/:id', requireAdmin, (req, res) => {
+  try {
+    const existing = db.prepare('SELECT * FROM alert_rules WHERE id = ?').get(req.params.id);
+    if (existing && alertStates.get(existing.id)?.state === 'firing') resolveAlert(existing, '规则已删除，告警结束');
+    db.prepare('DELETE FROM alert_rules WHERE id = ?').run(req.params.id);
+    alertStates.delete(Number(req.params.id));
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Delete alert rule error:", e);
+    res.status(500).json({ error: "Failed to delete alert rule" });
+  }
+});
+
+// API to get fired / resolved alert history
+app.get('/api/alerts', (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 100, 1000);
+    const rows = db.prepare('SELECT * FROM alerts ORDER BY id DESC LIMIT ?').all(limit);
+    res.json(rows);
+  } catch (e) {
+    console.error("Error fetching alerts:", e);
+    res.status(500).json({ error: "Failed to fetch alerts" });
+  }
+});
+
+function formatChannel(row) {
+  return {
+    ...row,
+    config: JSON.parse(row.config || '{}'),
+    enabled: !!row.enabled
+  };
+}
+
+function validateChannel(body) {
+  if (!body.name || typeof body.name !== 'string') return 'Channel name is required';
+  const notifier = NOTIFIERS[body.type];
+  if (!notifier) return `Unknown channel type: ${body.type}`;
+  if (body.rate_limit !== undefined && (typeof body.rate_limit !== 'number' || body.rate_limit < 0)) return 'Rate limit must be a non-negative number of seconds';
+  return notifier.validate(body.config || {});
+}
+
+// API to list notification channels
+app.get('/api/notifiers', requireAdmin, (req, res) => {
+  try {
+    const rows = db.prepare('SELECT * FROM notification_channels ORDER BY id ASC').all();
+    res.json(rows.map(formatChannel));
+  } catch (e) {
+    console.error("Error fetching notification channels:", e);
+    res.status(500).json({ error: "Failed to fetch notification channels" });
+  }
+});
+
+// API to create a notification channel
+app.post('/api/notifiers', requireAdmin, (req, res) => {
+  const error = validateChannel(req.body || {});
+  if (error) return res.status(400).json({ error });
+
+  try {
+    const { name, type, config = {}, template, rate_limit = 60, enabled = true } = req.body || {};
+    const result = db.prepare(`
+      INSERT INTO notification_channels (name, type, config, template, rate_limit, enabled)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(name, type, JSON.stringify(config), template || null, rate_limit, enabled ? 1 : 0);
+    res.json(formatChannel(db.prepare('SELECT * FROM notification_channels WHERE id = ?').get(result.lastInsertRowid)));
+  } catch (e) {
+    console.error("Create notification channel error:", e);
+    res.status(500).json({ error: "Failed to create notification channel" });
+  }
+});
+
+// API to update a notification channel
+app.put('/api/notifiers/:id', requireAdmin, (req, res) => {
+  try {
+    const existing = db.prepare('SELECT * FROM notification_channels WHERE id = ?').get(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Notification channel not found" });
+
+    const merged = { ...formatChannel(existing), ...req.body };
+    const error = validateChannel(merged);
+    if (error) return res.status(400).json({ error });
+
+    db.prepare(`
+      UPDATE notification_channels
+      SET name = ?, type = ?, config = ?, template = ?, rate_limit = ?, enabled = ?
+      WHERE id = ?
+    `).run(merged.name, merged.type, JSON.stringify(merged.config), merged.template || null, merged.rate_limit, merged.enabled ? 1 : 0, existing.id);
+    res.json(formatChannel(db.prepare('SELECT * FROM notification_channels WHERE id = ?').get(existing.id)));
+  } catch (e) {
+    console.error("Update notification channel error:", e);
+    res.status(500).json({ error: "Failed to update notification channel" });
+  }
+});
+
+// API to delete a notification channel
+app.delete('/api/notifiers/:id', requireAdmin, (req, res) => {
+  try {
+    db.prepare('DELETE FROM notification_channels WHERE id = ?').run(req.params.id);
+    forgetChannelRateLimit(Number(req.params.id));
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Delete notification channel error:", e);
+    res.status(500).json({ error: "Failed to delete notification channel" });
+  }
+});
+
+// API to send a test message through a channel (ignores the rate limit)
+app.post('/api/notifiers/:id/test', requireAdmin, async (req, res) => {
+  try {
+    const row = db.prepare('SELECT * FROM notification_channels WHERE id = ?').get(req.params.id);
+    if (!row) return res.status(404).json({ error: "Notification channel not found" });
+
+    const channel = formatChannel(row);
+    const vars = {
+      server: os.hostname(),
+      rule: '测试通知',
+      state: 'test',
+      message: '这是一条来自 VPS Monitor 的测试消息',
+      value: '',
+      time: new Date().toLocaleString()
+    };
+    await sendWithRetry(channel.type, channel.config, renderTemplate(channel.template, vars), vars, 0);
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Test notification error:", e);
+    res.status(502).json({ error: `Failed to send test message: ${e.message}` });
+  }
+});
+
+// --- Service checks ---
+const MIN_PROBE_INTERVAL = 10;
+const PROBE_RETENTION_DAYS = 30;
+// Latest result per probe id: { success, latency, message, timestamp }
+const probeStates = new Map();
+const runningProbes = new Set();
+
+function formatProbe(row) {
+  const stats = db.prepare(`
+    SELECT AVG(success) * 100 as success_rate, AVG(CASE WHEN success THEN latency END) as avg_latency
+    FROM probe_results WHERE probe_id = ? AND timestamp > datetime('now', '-1 day')
+  `).get(row.id);
+  return {
+    ...row,
+    config: JSON.parse(row.config || '{}'),
+    enabled: !!row.enabled,
+    last: probeStates.get(row.id) || null,
+    successRate: stats.success_rate,
+    avgLatency: stats.avg_latency
+  };
+}
+
+function validateProbe(body) {
+  if (!body.name || typeof body.name !== 'string') return 'Probe name is required';
+  const probe = PROBES[body.type];
+  if (!probe) return `Unknown probe type: ${body.type}`;
+  if (body.interval !== undefined && (typeof body.interval !== 'number' || body.interval < MIN_PROBE_INTERVAL)) return `Interval must be at least ${MIN_PROBE_INTERVAL} seconds`;
+  return probe.validate(body.config || {});
+}
+
+async function executeProbe(row) {
+  runningProbes.add(row.id);
+  try {
+    const result = await runProbe(row.type, JSON.parse(row.config || '{}'));
+    const timestamp = sqliteNow();
+    // The probe may have been deleted while it was running
+    if (!db.prepare('SELECT id FROM probes WHERE id = ?').get(row.id)) return result;
+    db.prepare(`
+      INSERT INTO probe_results (probe_id, timestamp, success, latency, message)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(row.id, timestamp, result.success ? 1 : 0, result.latency, result.message);
+    probeStates.set(row.id, { ...result, timestamp });
+    return result;
+  } finally {
+    runningProbes.delete(row.id);
+  }
+}
+
+// Start every enabled probe whose interval has elapsed; a probe never overlaps itself
+function runDueProbes() {
+  try {
+    const now = Date.now();
+    db.prepare('SELECT * FROM probes WHERE enabled = 1').all().forEach(row => {
+      const last = probeStates.get(row.id);
+      if (runningProbes.has(row.id)) return;
+      if (last && now - fromSqliteTime(last.timestamp) < row.interval * 1000) return;
+      executeProbe(row).catch(e => console.error(`Error running probe ${row.name}:`, e));
+    });
+  } catch (e) {
+    console.error("Error scheduling probes:", e);
+  }
+}
+
+// Seed the latest results so probes keep their schedule across restarts
+function restoreProbeStates() {
+  try {
+    const rows = db.prepare(`
+      SELECT probe_id, timestamp, success, latency, message FROM probe_results
+      WHERE id IN (SELECT MAX(id) FROM probe_results GROUP BY probe_id)
+    `).all();
+    rows.forEach(row => probeStates.set(row.probe_id, {
+      success: !!row.success,
+      latency: row.latency,
+      message: row.message,
+      timestamp: row.timestamp
+    }));
+  } catch (e) {
+    console.error("Error restoring probe states:", e);
+  }
+}
+
+// API to list probes with their latest result and 24h success rate
+app.get('/api/probes', (req, res) => {
+  try {
+    const rows = db.prepare('SELECT * FROM probes ORDER BY id ASC').all();
+    res.json(rows.map(formatProbe));
+  } catch (e) {
+    console.error("Error fetching probes:", e);
+    res.status(500).json({ error: "Failed to fetch probes" });
+  }
+});
+
+// API to create a probe
+app.post('/api/probes', requireAdmin, (req, res) => {
+  const error = validateProbe(req.body || {});
+  if (error) return res.status(400).json({ error });
+
+  try {
+    const { name, type, config = {}, interval = 60, enabled = true } = req.body || {};
+    const result = db.prepare(`
+      INSERT INTO probes (name, type, config, interval, enabled) VALUES (?, ?, ?, ?, ?)
+    `).run(name, type, JSON.stringify(config), Math.round(interval), enabled ? 1 : 0);
+    res.json(formatProbe(db.prepare('SELECT * FROM probes WHERE id = ?').get(result.lastInsertRowid)));
+  } catch (e) {
+    console.error("Create probe error:", e);
+    res.status(500).json({ error: "Failed to create probe" });
+  }
+});
+
+// API to update a probe
+app.put('/api/probes/:id', requireAdmin, (req, res) => {
+  try {
+    const existing = db.prepare('SELECT * FROM probes WHERE id = ?').get(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Probe not found" });
+
+    const merged = { ...formatProbe(existing), ...req.body };
+    const error = validateProbe(merged);
+    if (error) return res.status(400).json({ error });
+
+    db.prepare(`
+      UPDATE probes SET name = ?, type = ?, config = ?, interval = ?, enabled = ? WHERE id = ?
+    `).run(merged.name, merged.type, JSON.stringify(merged.config), Math.round(merged.interval), merged.enabled ? 1 : 0, existing.id);
+    res.json(formatProbe(db.prepare('SELECT * FROM probes WHERE id = ?').get(existing.id)));
+  } catch (e) {
+    console.error("Update probe error:", e);
+    res.status(500).json({ error: "Failed to update probe" });
+  }
+});
+
+// API to delete a probe and its results
+app.delete('/api/probes/:id', requireAdmin, (req, res) => {
+  try {
+    db.transaction(() => {
+      db.prepare('DELETE FROM probe_results WHERE probe_id = ?').run(req.params.id);
+      db.prepare('DELETE FROM probes WHERE id = ?').run(req.params.id);
+    })();
+    probeStates.delete(Number(req.params.id));
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Delete probe error:", e);
+    res.status(500).json({ error: "Failed to delete probe" });
+  }
+});
+
+// API to run a probe immediately; the result is recorded like a scheduled run
+app.post('/api/probes/:id/run', requireAdmin, async (req, res) => {
+  try {
+    const row = db.prepare('SELECT * FROM probes WHERE id = ?').get(req.params.id);
+    if (!row) return res.status(404).json({ error: "Probe not found" });
+    if (runningProbes.has(row.id)) return res.status(409).json({ error: "Probe is already running" });
+    res.json(await executeProbe(row));
+  } catch (e) {
+    console.error("Run probe error:", e);
+    res.status(500).json({ error: "Failed to run probe" });
+  }
+});
+
+// API to get latency / success history of a probe, bucketed like /api/history
+app.get('/api/probes/:id/history', (req, res) => {
+  try {
+    const probe = db.prepare('SELECT * FROM probes WHERE id = ?').get(req.params.id);
+    if (!probe) return res.status(404).json({ error: "Probe not found" });
+    const timeWindow = resolveTimeWindow({ range: '24h', ...req.query });
+    if (!timeWindow) return res.status(400).json({ error: "Invalid time range" });
+
+    const span = (timeWindow.to.getTime() - timeWindow.from.getTime()) / 1000;
+    const bucket = Math.max(probe.interval, Math.ceil(span / MAX_HISTORY_POINTS));
+    const rows = db.prepare(`
+      SELECT
+        datetime((CAST(strftime('%s', timestamp) AS INTEGER) / @bucket) * @bucket, 'unixepoch') as timestamp,
+        AVG(CASE WHEN success THEN latency END) as latency,
+        AVG(success) * 100 as success_rate,
+        COUNT(*) as checks
+      FROM probe_results
+      WHERE probe_id = @id AND timestamp >= @from AND timestamp <= @to
+      GROUP BY 1
+      ORDER BY 1 ASC
+    `).all({ id: probe.id, bucket, from: toSqliteTime(timeWindow.from), to: toSqliteTime(timeWindow.to) });
+    res.json(rows);
+  } catch (e) {
+    console.error("Error fetching probe history:", e);
+    res.status(500).json({ error: "Failed to fetch probe history" });
+  }
+});
+
+// API to get the top processes recorded at (or nearest to) a history sample
+app.get('/api/history/processes', (req, res) => {
+  try {
+    const target = req.query.timestamp;
+    if (!target) return res.status(400).json({ error: "timestamp is required" });
+
+    const nearest = db.prepare(`
+      SELECT timestamp FROM process_history
+      WHERE node_id = ? AND timestamp BETWEEN datetime(?, '-5 minutes') AND datetime(?, '+5 minutes')
+      ORDER BY ABS(strftime('%s', timestamp) - strftime('%s', ?)) ASC
+      LIMIT 1
+    `).get(req.nodeId, target, target, target);
+    if (!nearest) return res.json({ timestamp: null, processes: [] });
+
+    const processes = db.prepare(`
+      SELECT pid, name, user, cpu, rss, command FROM process_history
+      WHERE node_id = ? AND timestamp = ?
+      ORDER BY cpu DESC
+    `).all(req.nodeId, nearest.timestamp);
+    res.json({ timestamp: nearest.timestamp, processes });
+  } catch (e) {
+    console.error("Error fetching process history:", e);
+    res.status(500).json({ error: "Failed to fetch process history" });
+  }
+});
+
+// API to get the resource history of one container, bucketed like /api/history
+app.get('/api/history/containers', (req, res) => {
+  try {
+    if (!req.query.name) return res.status(400).json({ error: "name is required" });
+    const timeWindow = resolveTimeWindow({ range: '24h', ...req.query });
+    if (!timeWindow) return res.status(400).json({ error: "Invalid time range" });
+
+    const span = (timeWindow.to.getTime() - timeWindow.from.getTime()) / 1000;
+    const bucket = Math.max(60, Math.ceil(span / MAX_HISTORY_POINTS));
+    const rows = db.prepare(`
+      SELECT
+        datetime((CAST(strftime('%s', timestamp) AS INTEGER) / @bucket) * @bucket, 'unixepoch') as timestamp,
+        AVG(cpu) as cpu,
+        AVG(mem) as mem,
+        AVG(rx) as rx,
+        AVG(tx) as tx
+      FROM container_history
+      WHERE node_id = @nodeId AND name = @name AND timestamp >= @from AND timestamp <= @to
+      GROUP BY 1
+      ORDER BY 1 ASC
+    `).all({
+      nodeId: req.nodeId,
+      name: String(req.query.name),
+      bucket,
+      from: toSqliteTime(timeWindow.from),
+      to: toSqliteTime(timeWindow.to)
+    });
+    res.json(rows);
+  } catch (e) {
+    console.error("Error fetching container history:", e);
+    res.status(500).json({ error: "Failed to fetch container history" });
+  }
+});
+
+// API to get recorded service failures / recoveries
+app.get('/api/services/events', (req, res) => {
+  try {
+    const timeWindow = resolveTimeWindow({ range: '7d', ...req.query });
+    if (!timeWindow) return res.status(400).json({ error: "Invalid time range" });
+    const events = db.prepare(`
+      SELECT timestamp, unit, state, previous_state FROM service_events
+      WHERE node_id = ? AND timestamp >= ? AND timestamp <= ?
+      ORDER BY timestamp DESC, id DESC
+      LIMIT 200
+    `).all(req.nodeId, toSqliteTime(timeWindow.from), toSqliteTime(timeWindow.to));
+    res.json(events);
+  } catch (e) {
+    console.error("Error fetching service events:", e);
+    res.status(500).json({ error: "Failed to fetch service events" });
+  }
+});
+
+const MAX_JOURNAL_LINES = 500;
+
+// API to tail the journal of a monitored unit (only units in the configured list)
+app.get('/api/services/journal', requireAdmin, async (req, res) => {
+  try {
+    const unit = String(req.query.unit || '');
+    if (!getMonitoredUnits().includes(unit)) return res.status(404).json({ error: "Unit is not monitored" });
+    const lines = Math.min(MAX_JOURNAL_LINES, Math.max(1, parseInt(req.query.lines, 10) || 100));
+    res.json({ unit, lines: await systemd.getJournal(unit, lines) });
+  } catch (e) {
+    console.error("Error reading journal:", e);
+    res.status(500).json({ error: "Failed to read journal" });
+  }
+});
+
+function formatOutage(outage) {
+  const start = fromSqliteTime(outage.started_at);
+  const end = fromSqliteTime(outage.ended_at);
+  return {
+    id: outage.id,
+    start: new Date(start).toISOString(),
+    end: end ? new Date(end).toISOString() : null,
+    duration: Math.round(((end || Date.now()) - start) / 1000),
+    reason: outage.reason
+  };
+}
+
+const nodeName = (nodeId) => (nodeId === LOCAL_NODE_ID ? os.hostname() : remoteNodes.get(nodeId).name);
+
+// Availability of each of the last `days` local days, oldest first
+function getDailyAvailability(nodeId, days) {
+  const firstDay = new Date();
+  firstDay.setHours(0, 0, 0, 0);
+  firstDay.setDate(firstDay.getDate() - (days - 1));
+  const outages = getOutages(nodeId, firstDay.getTime(), Date.now());
+
+  const daily = [];
+  for (let i = 0; i < days; i++) {
+    const start = new Date(firstDay);
+    start.setDate(firstDay.getDate() + i);
+    const end = new Date(start);
+    end.setDate(start.getDate() + 1);
+    daily.push({ date: formatLocalDate(start), ...getAvailability(nodeId, start.getTime(), end.getTime(), outages) });
+  }
+  return daily;
+}
+
+// Availability summary: rolling 24h / 7d / 30d percentages, one entry per local day
+// for the status bar, and the most recent outages
+app.get('/api/uptime', (req, res) => {
+  try {
+    const days = Math.min(365, Math.max(1, parseInt(req.query.days) || 90));
+    const now = Date.now();
+    const daily = getDailyAvailability(req.nodeId, days);
+
+    const status = getNodeStatus(req.nodeId);
+    const recent = db.prepare(`
+      SELECT id, started_at, ended_at, reason FROM outages
+      WHERE node_id = ? ORDER BY started_at DESC LIMIT 20
+    `).all(req.nodeId);
+    res.json({
+      trackingSince: new Date(fromSqliteTime(status.tracking_since)).toISOString(),
+      bootTime: status.boot_time ? new Date(fromSqliteTime(status.boot_time)).toISOString() : null,
+      summary: {
+        day: getAvailability(req.nodeId, now - 86400000, now),
+        week: getAvailability(req.nodeId, now - 7 * 86400000, now),
+        month: getAvailability(req.nodeId, now - 30 * 86400000, now)
+      },
+      daily,
+      outages: recent.map(formatOutage)
+    });
+  } catch (e) {
+    console.error("Error fetching uptime:", e);
+    res.status(500).json({ error: "Failed to fetch uptime" });
+  }
+});
+
+// Downloadable SLA report for a window (defaults to the last 30 days), as CSV or JSON
+app.get('/api/uptime/report', (req, res) => {
+  try {
+    const timeWindow = resolveTimeWindow({ range: '30d', ...req.query });
+    if (!timeWindow) return res.status(400).json({ error: "Invalid time range" });
+    const format = req.query.format || 'csv';
+    if (format !== 'csv' && format !== 'json') return res.status(400).json({ error: `Unknown format: ${format}` });
+
+    const from = timeWindow.from.getTime();
+    const to = timeWindow.to.getTime();
+    const outages = getOutages(req.nodeId, from, to);
+    const { availability, downtime } = getAvailability(req.nodeId, from, to, outages);
+    const report = {
+      server: nodeName(req.nodeId),
+      from: timeWindow.from.toISOString(),
+      to: timeWindow.to.toISOString(),
+      trackingSince: new Date(fromSqliteTime(getNodeStatus(req.nodeId).tracking_since)).toISOString(),
+      availability,
+      downtime,
+      outages: outages.map(formatOutage)
+    };
+
+    const stamp = (date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+    res.setHeader('Content-Disposition', `attachment; filename="vps-sla-${stamp(timeWindow.from)}-${stamp(timeWindow.to)}.${format}"`);
+    if (format === 'json') return res.json(report);
+
+    const lines = [
+      'server,period_start,period_end,tracking_since,availability_percent,downtime_seconds,outages',
+      [JSON.stringify(report.server), report.from, report.to, report.trackingSince,
+        availability === null ? '' : availability.toFixed(4), downtime, outages.length].join(','),
+      '',
+      'outage_start,outage_end,duration_seconds,reason',
+      ...report.outages.map(o => [o.start, o.end || '', o.duration, o.reason].join(','))
+    ];
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.send(lines.join('\n') + '\n');
+  } catch (e) {
+    console.error("Error generating SLA report:", e);
+    res.status(500).json({ error: "Failed to generate SLA report" });
+  }
+});
+
+// Public status page. Only what the `statusPage` setting exposes is returned: display
+// names, up/down state, availability and the chosen metrics, never URLs or settings.
+const STATUS_PAGE_METRICS = {
+  cpu: ['cpu'],
+  mem: ['mem'],
+  disk: ['disk'],
+  net: ['rx', 'tx']
+};
+const DEFAULT_STATUS_PAGE = {
+  enabled: false,
+  title: '服务状态',
+  servers: [],
+  metrics: ['cpu', 'mem'],
+  showUptime: true
+};
+// Rendered responses are reused briefly so public traffic cannot load the database
+const STATUS_PAGE_CACHE_MS = 30000;
+let statusPageCache = null;
+
+function buildStatusPage(config) {
+  const now = Date.now();
+  const metrics = config.metrics.filter(metric => STATUS_PAGE_METRICS[metric]);
+  const servers = config.servers
+    .filter(server => server.id === LOCAL_NODE_ID || remoteNodes.has(server.id))
+    .map(server => {
+      const current = server.id === LOCAL_NODE_ID ? latestMetrics : remoteNodes.get(server.id).metrics;
+      const online = server.id === LOCAL_NODE_ID || !!remoteNodes.get(server.id).socket;
+      const history = metrics.length > 0
+        ? queryHistory(new Date(now - 86400000), new Date(now), undefined, server.id).map(row => {
+          const point = { timestamp: new Date(fromSqliteTime(row.timestamp)).toISOString() };
+          metrics.forEach(metric => STATUS_PAGE_METRICS[metric].forEach(alias => { point[alias] = row[alias]; }));
+          return point;
+        })
+        : [];
+      return {
+        name: server.name || nodeName(server.id),
+        online,
+        current: online && current ? {
+          cpu: metrics.includes('cpu') ? current.cpu?.load ?? null : undefined,
+          mem: metrics.includes('mem') ? current.memory?.percentage ?? null : undefined,
+          disk: metrics.includes('disk') ? current.disk?.[0]?.use ?? null : undefined
+        } : null,
+        uptime: config.showUptime ? {
+          month: getAvailability(server.id, now - 30 * 86400000, now).availability,
+          daily: getDailyAvailability(server.id, 90).map(day => ({ date: day.date, availability: day.availability }))
+        } : null,
+        history
+      };
+    });
+  return { title: config.title, metrics, updatedAt: new Date(now).toISOString(), servers };
+}
+
+app.get('/api/status', (req, res) => {
+  try {
+    const config = { ...DEFAULT_STATUS_PAGE, ...getSetting('statusPage', {}) };
+    if (!config.enabled) return res.status(404).json({ error: "Status page is disabled" });
+    if (!statusPageCache || Date.now() - statusPageCache.at > STATUS_PAGE_CACHE_MS) {
+      statusPageCache = { at: Date.now(), data: buildStatusPage(config) };
+    }
+    res.json(statusPageCache.data);
+  } catch (e) {
+    console.error("Error building status page:", e);
+    res.status(500).json({ error: "Failed to build status page" });
+  }
+});
+
+// Hub nodes: agents registered with this hub. The token is only shown once, on creation.
+app.get('/api/nodes', (req, res) => {
+  res.json({ role: ROLE, nodes: [...remoteNodes.values()].map(formatNode) });
+});
+
+app.post('/api/nodes', requireAdmin, (req, res) => {
+  try {
+    if (ROLE !== 'hub') return res.status(400).json({ error: "Hub mode is not enabled" });
+    const name = String(req.body?.name || '').trim();
+    if (!name) return res.status(400).json({ error: "Node name is required" });
+
+    const id = crypto.randomBytes(6).toString('hex');
+    const token = crypto.randomBytes(32).toString('hex');
+    db.prepare('INSERT INTO nodes (id, name, token_hash) VALUES (?, ?, ?)').run(id, name, hashToken(token));
+    const node = registerRemoteNode({ id, name });
+    res.json({ ...formatNode(node), token });
+  } catch (e) {
+    console.error("Error creating node:", e);
+    res.status(500).json({ error: "Failed to create node" });
+  }
+});
+
+app.delete('/api/nodes/:id', requireAdmin, (req, res) => {
+  try {
+    const node = remoteNodes.get(req.params.id);
+    if (!node) return res.status(404).json({ error: "Unknown node" });
+
+    remoteNodes.delete(node.id);
+    node.socket?.disconnect(true);
+    io.of(`/nodes/${node.id}`).disconnectSockets(true);
+    bootTimes.delete(node.id);
+    db.transaction(() => {
+      const tables = ['metrics', 'network_history', 'process_history', 'container_history', 'service_events', 'outages', 'node_status'];
+      ROLLUP_TIERS.forEach(name => tables.push(HISTORY_TIERS[name].table, HISTORY_TIERS[name].networkTable));
+      tables.forEach(table => db.prepare(`DELETE FROM ${table} WHERE node_id = ?`).run(node.id));
+      db.prepare('DELETE FROM nodes WHERE id = ?').run(node.id);
+    })();
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Error deleting node:", e);
+    res.status(500).json({ error: "Failed to delete node" });
+  }
+});
+
+// Render a metrics snapshot in the Prometheus text exposition format
+function formatPrometheusMetrics(metrics, counters) {
+  const lines = [];
+  const family = (name, type, help, samples) => {
+    const valid = samples.filter(sample => typeof sample.value === 'number' && Number.isFinite(sample.value));
+    if (valid.length === 0) return;
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    valid.forEach(({ labels, value }) => {
+      const labelText = labels
+        ? `{${Object.entries(labels).map(([key, val]) => `${key}="${escapeLabelValue(val)}"`).join(',')}}`
+        : '';
+      lines.push(`${name}${labelText} ${value}`);
+    });
+  };
+
+  const { cpu, memory, network, disk, diskIO, uptime } = metrics;
+  family('vps_cpu_usage_percent', 'gauge', 'CPU usage across all cores.', [{ value: cpu.load }]);
+  family('vps_cpu_core_usage_percent', 'gauge', 'CPU usage per core.',
+    (cpu.coresLoad || []).map((value, core) => ({ labels: { core }, value })));
+  family('vps_cpu_steal_percent', 'gauge', 'CPU time stolen by the hypervisor.', [{ value: cpu.steal }]);
+  family('vps_cpu_iowait_percent', 'gauge', 'CPU time waiting for I/O.', [{ value: diskIO.iowait }]);
+  family('vps_cpu_temperature_celsius', 'gauge', 'CPU package temperature.', [{ value: cpu.temperature }]);
+  ['load1', 'load5', 'load15'].forEach((name, i) => {
+    family(`vps_${name}`, 'gauge', `${name.slice(4)}-minute load average.`, [{ value: cpu.loadAvg?.[i] }]);
+  });
+
+  family('vps_memory_total_bytes', 'gauge', 'Total memory.', [{ value: memory.total }]);
+  family('vps_memory_used_bytes', 'gauge', 'Used memory.', [{ value: memory.used }]);
+  family('vps_memory_usage_percent', 'gauge', 'Used memory as a percentage of total.', [{ value: memory.percentage }]);
+
+  family('vps_network_receive_bytes_per_second', 'gauge', 'Network receive rate.',
+    network.map(n => ({ labels: { iface: n.iface }, value: n.rx_sec })));
+  family('vps_network_transmit_bytes_per_second', 'gauge', 'Network transmit rate.',
+    network.map(n => ({ labels: { iface: n.iface }, value: n.tx_sec })));
+  family('vps_network_receive_bytes_total', 'counter', 'Bytes received since boot (kernel counter).',
+    [...counters].map(([iface, counter]) => ({ labels: { iface }, value: counter.rx })));
+  family('vps_network_transmit_bytes_total', 'counter', 'Bytes transmitted since boot (kernel counter).',
+    [...counters].map(([iface, counter]) => ({ labels: { iface }, value: counter.tx })));
+
+  const fsLabels = (d) => ({ fs: d.fs, mount: d.mount, type: d.type });
+  family('vps_filesystem_size_bytes', 'gauge', 'Filesystem size.', disk.map(d => ({ labels: fsLabels(d), value: d.size })));
+  family('vps_filesystem_used_bytes', 'gauge', 'Filesystem space used.', disk.map(d => ({ labels: fsLabels(d), value: d.used })));
+  family('vps_filesystem_usage_percent', 'gauge', 'Filesystem space used as a percentage of size.',
+    disk.map(d => ({ labels: fsLabels(d), value: d.use })));
+
+  family('vps_uptime_seconds', 'gauge', 'System uptime.', [{ value: uptime }]);
+
+  return lines.join('\n') + '\n';
+}
+
+// Prometheus scrape endpoint; same token auth as /api (Bearer header or ?token=)
+app.get('/metrics', requireAuth, (req, res) => {
+  try {
+    res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    if (req.nodeId === LOCAL_NODE_ID) {
+      res.send(formatPrometheusMetrics(latestMetrics, networkCounters));
+    } else {
+      res.send(formatPrometheusMetrics(remoteNodes.get(req.nodeId).metrics || createEmptyMetrics(), new Map()));
+    }
+  } catch (e) {
+    console.error("Error rendering Prometheus metrics:", e);
+    res.status(500).json({ error: "Failed to render metrics" });
+  }
+});
+
+// HTTPS when tls.cert / tls.key are configured. The files are read again on SIGHUP so
+// renewed certificates apply without a restart.
+const readTlsFiles = () => ({ cert: fs.readFileSync(config.tls.cert), key: fs.readFileSync(config.tls.key) });
+const server = config.tls.cert ? https.createServer(readTlsFiles(), app) : http.createServer(app);
+/** @type {Server<ClientToServerEvents, ServerToClientEvents>} */
+const io = new Server(server, {
+  cors: {
+    origin: corsOrigin,
+    methods: ["GET", "POST"]
+  }
+});
+
+// Sockets authenticate with the same tokens, passed as `auth: { token }`
+function authenticateSocket(socket, next) {
+  const session = findSession(socket.handshake.auth?.token || socket.handshake.query?.token);
+  if (!session) return next(new Error('Unauthorized'));
+  socket.data.session = session;
+  next();
+}
+io.use(authenticateSocket);
+
+// --- Metric subscriptions ---
+// Dashboards subscribe to the metric groups they display at the rate they want, get a
+// `snapshot` and then only `delta`s. Sockets that never subscribe (older dashboards)
+// stay in FULL_METRICS_ROOM and receive the whole object every second.
+const METRIC_GROUPS = ['cpu', 'memory', 'network', 'disk', 'diskIO', 'processes', 'containers', 'services', 'uptime'];
+const FULL_METRICS_ROOM = 'full-metrics';
+const MIN_SUBSCRIPTION_INTERVAL = 1000;
+const MAX_SUBSCRIPTION_INTERVAL = 60000;
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+// Before the first collection latestMetrics is an empty placeholder
+const hasMetrics = (metrics) => metrics?.cpu?.load !== undefined;
+
+// Changes of `groups` since the last call. `sent` remembers the JSON of what was sent,
+// per key for object groups so those only carry their changed keys.
+function diffMetrics(sent, metrics, groups) {
+  const delta = {};
+  for (const group of groups) {
+    const value = metrics[group];
+    if (value === undefined) continue;
+    if (isPlainObject(value) && isPlainObject(sent[group])) {
+      const changed = {};
+      for (const [key, field] of Object.entries(value)) {
+        const json = JSON.stringify(field);
+        if (sent[group][key] === json) continue;
+        sent[group][key] = json;
+        changed[key] = field;
+      }
+      if (Object.keys(changed).length > 0) delta[group] = changed;
+    } else if (isPlainObject(value)) {
+      sent[group] = Object.fromEntries(Object.entries(value).map(([key, field]) => [key, JSON.stringify(field)]));
+      delta[group] = value;
+    } else {
+      const json = JSON.stringify(value);
+      if (sent[group] === json) continue;
+      sent[group] = json;
+      delta[group] = value;
+    }
+  }
+  return delta;
+}
+
+// --- Live sample buffer ---
+// The last LIVE_BUFFER_SECONDS of 1-second samples per machine, sent to dashboards when
+// they subscribe so the live charts start filled instead of empty
+const LIVE_BUFFER_SECONDS = 15 * 60;
+
+function createSampleBuffer(capacity = LIVE_BUFFER_SECONDS) {
+  const samples = new Array(capacity);
+  let next = 0;
+  let size = 0;
+  return {
+    push(sample) {
+      samples[next] = sample;
+      next = (next + 1) % capacity;
+      size = Math.min(size + 1, capacity);
+    },
+    // Samples taken in the last `seconds`, oldest first
+    recent(seconds) {
+      const cutoff = Date.now() - seconds * 1000;
+      const result = [];
+      for (let i = size; i > 0; i--) {
+        const sample = samples[(next - i + capacity) % capacity];
+        if (sample.timestamp >= cutoff) result.push(sample);
+      }
+      return result;
+    }
+  };
+}
+
+// The fields the live charts plot, with per-interface network rates
+function toLiveSample(metrics) {
+  const devices = metrics.diskIO?.devices || [];
+  return {
+    timestamp: Date.now(),
+    cpu: Math.round(metrics.cpu.load),
+    mem: Math.round(metrics.memory?.percentage || 0),
+    network: (metrics.network || []).map(({ iface, rx_sec, tx_sec, virtual }) => ({ iface, rx_sec, tx_sec, virtual })),
+    diskRead: devices.reduce((acc, d) => acc + d.read_sec, 0),
+    diskWrite: devices.reduce((acc, d) => acc + d.write_sec, 0)
+  };
+}
+
+function handleSubscriptions(socket, getMetrics, sampleBuffer) {
+  socket.join(FULL_METRICS_ROOM);
+  let timer = null;
+
+  socket.on('subscribe', (request) => {
+    const groups = Array.isArray(request?.groups) ? request.groups.filter(g => METRIC_GROUPS.includes(g)) : [];
+    const interval = Math.min(MAX_SUBSCRIPTION_INTERVAL, Math.max(MIN_SUBSCRIPTION_INTERVAL, Number(request?.interval) || MIN_SUBSCRIPTION_INTERVAL));
+    clearInterval(timer);
+    socket.leave(FULL_METRICS_ROOM);
+    socket.data.subscription = { groups, interval };
+    const seconds = Math.min(LIVE_BUFFER_SECONDS, Math.max(0, Math.floor(Number(request?.samples) || 0)));
+    if (seconds > 0) socket.emit('samples', sampleBuffer.recent(seconds));
+    if (groups.length === 0) return;
+
+    const sent = {};
+    const push = (event) => {
+      const metrics = getMetrics();
+      if (!hasMetrics(metrics)) return;
+      const delta = diffMetrics(sent, metrics, groups);
+      if (event === 'snapshot' || Object.keys(delta).length > 0) socket.emit(event, delta);
+    };
+    // Collectors that were idle start sampling at full rate right away
+    runOnDemandCollectors();
+    push('snapshot');
+    timer = setInterval(() => push('delta'), interval);
+  });
+
+  socket.on('disconnect', () => clearInterval(timer));
+}
+
+// Whether anyone needs `group` from this machine: a local subscriber, a dashboard that
+// did not subscribe, or the hub we report to as an agent
+function isGroupWatched(group) {
+  if (hubSocket?.connected) return true;
+  for (const socket of io.of('/').sockets.values()) {
+    const subscription = socket.data.subscription;
+    if (!subscription || subscription.groups.includes(group)) return true;
+  }
+  return false;
+}
+
+// Placeholder until the first collection. It does not match the schema (see hasMetrics)
+// but is typed as Metrics, which every collector fills in.
+const createEmptyMetrics = () => /** @type {Metrics} */ (/** @type {unknown} */ ({
+  cpu: {},
+  memory: {},
+  network: [],
+  disk: [],
+  diskIO: { devices: [], iowait: null },
+  processes: [],
+  // null when no Docker daemon is reachable
+  containers: null,
+  // null when systemd is not available
+  services: null,
+  uptime: 0
+}));
+
+let staticData = null;
+let latestMetrics = createEmptyMetrics();
+const liveSamples = createSampleBuffer();
+
+// Hub state for remote nodes: id -> { id, name, metrics, samples, socket, lastSeen }.
+// Browsers watch a node on the `/nodes/<id>` namespace; agents connect to `/agent`.
+const remoteNodes = new Map();
+
+function formatNode(node) {
+  return {
+    id: node.id,
+    name: node.name,
+    online: !!node.socket,
+    protocolVersion: node.socket ? node.protocolVersion : null,
+    lastSeen: node.lastSeen ? new Date(node.lastSeen).toISOString() : null
+  };
+}
+
+function registerRemoteNode(row) {
+  const node = {
+    id: row.id,
+    name: row.name,
+    metrics: null,
+    samples: createSampleBuffer(),
+    socket: null,
+    protocolVersion: null,
+    lastSeen: fromSqliteTime(row.last_seen)
+  };
+  remoteNodes.set(node.id, node);
+
+  const namespace = io.of(`/nodes/${node.id}`);
+  namespace.use(authenticateSocket);
+  namespace.on('connection', (socket) => {
+    socket.emit('hello', nodeHello(node));
+    handleSubscriptions(socket, () => node.metrics, node.samples);
+    if (node.metrics) socket.emit('metrics', node.metrics);
+  });
+  return node;
+}
+
+// Dashboards watching a node also learn which protocol version its agent speaks
+function nodeHello(node) {
+  return {
+    protocolVersion: PROTOCOL_VERSION,
+    role: ROLE,
+    agentProtocolVersion: node.socket ? node.protocolVersion : null
+  };
+}
+
+function startHub() {
+  db.prepare('SELECT * FROM nodes').all().forEach(registerRemoteNode);
+
+  /** @type {import('socket.io').Namespace<AgentToHubEvents, HubToAgentEvents>} */
+  const agents = /** @type {any} */ (io.of('/agent'));
+  agents.use((socket, next) => {
+    const row = db.prepare('SELECT id FROM nodes WHERE token_hash = ?').get(hashToken(String(socket.handshake.auth?.token || '')));
+    if (!row || !remoteNodes.has(row.id)) return next(new Error('Unauthorized'));
+    socket.data.nodeId = row.id;
+    next();
+  });
+  agents.on('connection', (socket) => {
+    const node = remoteNodes.get(socket.data.nodeId);
+    // A reconnecting agent replaces its previous connection
+    if (node.socket) node.socket.disconnect(true);
+    node.socket = socket;
+    node.protocolVersion = Number(socket.handshake.auth?.protocolVersion) || LEGACY_PROTOCOL_VERSION;
+    closeOutage(node.id, sqliteNow());
+    console.log(`Agent connected: ${node.name} (${node.id})`);
+    if (node.protocolVersion < PROTOCOL_VERSION) {
+      console.warn(`Agent ${node.name} uses protocol v${node.protocolVersion}, hub is v${PROTOCOL_VERSION}; please upgrade it`);
+    }
+    io.of(`/nodes/${node.id}`).emit('hello', nodeHello(node));
+
+    socket.on('metrics', (metrics) => {
+      if (!metrics || typeof metrics !== 'object') return;
+      node.metrics = metrics;
+      node.lastSeen = Date.now();
+      if (hasMetrics(metrics)) node.samples.push(toLiveSample(metrics));
+      checkReboot(node.id, metrics.uptime);
+      io.of(`/nodes/${node.id}`).to(FULL_METRICS_ROOM).emit('metrics', metrics);
+    });
+
+    // Samples the agent queued while it could not reach us, oldest first
+    socket.on('backfill', (entries, ack) => {
+      if (!Array.isArray(entries) || typeof ack !== 'function') return;
+      entries
+        .filter(entry => hasMetrics(entry?.sample) && SQLITE_TIME_PATTERN.test(entry.timestamp))
+        .forEach(entry => {
+          storeHistorySample(node.id, toHistorySample(entry.sample), entry.timestamp);
+          markBackfilled(node.id, entry.timestamp);
+        });
+      ack();
+    });
+
+    socket.on('disconnect', () => {
+      if (node.socket !== socket || !remoteNodes.has(node.id)) return;
+      node.socket = null;
+      const lastSeen = toSqliteTime(new Date(node.lastSeen || Date.now()));
+      db.prepare('UPDATE nodes SET last_seen = ? WHERE id = ?').run(lastSeen, node.id);
+      openOutage(node.id, lastSeen);
+      console.log(`Agent disconnected: ${node.name} (${node.id})`);
+      io.of(`/nodes/${node.id}`).emit('hello', nodeHello(node));
+    });
+  });
+}
+
+// Agent role: push live metrics to the hub over an outbound, token-authenticated socket
+/** @type {import('socket.io-client').Socket<HubToAgentEvents, AgentToHubEvents> | null} */
+let hubSocket = null;
+
+// hubUrl and agentToken are checked by loadConfig
+function startAgent() {
+  hubSocket = connectToHub(`${config.hubUrl.replace(/\/+$/, '')}/agent`, {
+    auth: { token: config.agentToken, protocolVersion: PROTOCOL_VERSION },
+    reconnectionDelayMax: 30000
+  });
+  hubSocket.on('connect', () => {
+    console.log(`Connected to hub ${config.hubUrl}`);
+    sendBackfill();
+  });
+  hubSocket.on('connect_error', (err) => console.error('Hub connection failed:', err.message));
+  hubSocket.on('disconnect', (reason) => console.log('Disconnected from hub:', reason));
+}
+
+// Temperature / current frequency, refreshed on a slower interval than load
+let cpuSensors = { temperature: null, speedCurrent: null };
+
+// Processes kept in latestMetrics: the heaviest by CPU plus the heaviest by memory
+const PROCESS_LIST_SIZE = 50;
+// Processes written to process_history on every history sample
+const PROCESS_HISTORY_SIZE = 5;
+
+async function getStaticData() {
+  if (staticData) return staticData;
+  try {
+    const [cpu, defaultIface] = await Promise.all([
+      si.cpu(),
+      si.networkInterfaceDefault()
+    ]);
+    staticData = {
+      defaultIface,
+      cpu: {
+        manufacturer: cpu.manufacturer,
+        brand: cpu.brand,
+        speed: cpu.speed,
+        cores: cpu.cores,
+      }
+    };
+    return staticData;
+  } catch (e) {
+    console.error("Error getting static data:", e);
+    return { cpu: {} };
+  }
+}
+
+// Separate update functions for different types of data
+async function updateFastMetrics() {
+  try {
+    const [mem, load, time] = await Promise.all([
       si.mem(),
       si.currentLoad(),
       si.time()
@@ -155,7 +2034,11 @@ async function updateFastMetrics() {
     
     latestMetrics.cpu = {
       ...staticInfo.cpu,
-      load: load.currentLoad
+      load: load.currentLoad,
+      coresLoad: load.cpus.map(c => c.load),
+      steal: load.currentLoadSteal,
+      loadAvg: os.loadavg(),
+      ...cpuSensors
     };
     latestMetrics.memory = {
       total: mem.total,
@@ -165,21 +2048,50 @@ async function updateFastMetrics() {
       percentage: (mem.used / mem.total) * 100
     };
     latestMetrics.uptime = time.uptime;
+    liveSamples.push(toLiveSample(latestMetrics));
     
-    io.emit('metrics', latestMetrics);
+    io.to(FULL_METRICS_ROOM).emit('metrics', latestMetrics);
+    if (hubSocket?.connected) hubSocket.volatile.emit('metrics', latestMetrics);
   } catch (e) {
     console.error("Error updating fast metrics:", e);
   }
 }
 
+async function updateCpuSensors() {
+  try {
+    const [temp, speed] = await Promise.all([
+      si.cpuTemperature(),
+      si.cpuCurrentSpeed()
+    ]);
+    // Both report null / 0 on hosts without sensors (most VPSes)
+    cpuSensors = {
+      temperature: typeof temp.main === 'number' && temp.main > 0 ? temp.main : null,
+      speedCurrent: speed.avg > 0 ? speed.avg : null
+    };
+  } catch (e) {
+    console.error("Error updating CPU sensors:", e);
+  }
+}
+
+// Latest cumulative kernel byte counters per interface, consumed by accountBandwidth()
+const networkCounters = new Map();
+
 async function updateNetworkMetrics() {
   try {
-    const networkStats = await si.networkStats();
-    latestMetrics.network = networkStats.map(iface => ({
-      iface: iface.iface,
-      rx_sec: iface.rx_sec,
-      tx_sec: iface.tx_sec
-    }));
+    const networkStats = await si.networkStats('*');
+    const defaultIface = staticData?.defaultIface;
+    networkStats.forEach(iface => {
+      networkCounters.set(iface.iface, { rx: iface.rx_bytes, tx: iface.tx_bytes });
+    });
+    latestMetrics.network = networkStats
+      .map(iface => ({
+        iface: iface.iface,
+        rx_sec: iface.rx_sec,
+        tx_sec: iface.tx_sec,
+        virtual: isVirtualIface(iface.iface)
+      }))
+      // Keep the default route interface first so single-interface views pick it
+      .sort((a, b) => Number(b.iface === defaultIface) - Number(a.iface === defaultIface));
     // We don't emit here to avoid too many small updates, 
     // it will be sent with the next fast metrics update
   } catch (e) {
@@ -187,11 +2099,86 @@ async function updateNetworkMetrics() {
   }
 }
 
+// Previous /proc/diskstats and /proc/stat readings for computing per-second rates
+let lastDiskStats = null;
+let lastCpuTimes = null;
+let diskIOUnsupported = false;
+
+const SECTOR_SIZE = 512;
+// Virtual devices that would only add noise (or double count) in the I/O view
+const IGNORED_BLOCK_DEVICES = /^(loop|ram|zram|fd|sr)\d*/;
+
+function readDiskStats() {
+  const stats = {};
+  fs.readFileSync('/proc/diskstats', 'utf8').split('\n').forEach(line => {
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 14) return;
+    const name = parts[2];
+    // Partitions are not listed in /sys/block, so this keeps whole disks only
+    if (IGNORED_BLOCK_DEVICES.test(name) || !fs.existsSync(`/sys/block/${name}`)) return;
+    stats[name] = {
+      reads: Number(parts[3]),
+      readSectors: Number(parts[5]),
+      readMs: Number(parts[6]),
+      writes: Number(parts[7]),
+      writeSectors: Number(parts[9]),
+      writeMs: Number(parts[10]),
+      ioMs: Number(parts[12])
+    };
+  });
+  return stats;
+}
+
+function readCpuTimes() {
+  const fields = fs.readFileSync('/proc/stat', 'utf8').split('\n')[0].trim().split(/\s+/).slice(1).map(Number);
+  return { iowait: fields[4] || 0, total: fields.reduce((acc, v) => acc + v, 0) };
+}
+
+async function updateDiskIOMetrics() {
+  if (diskIOUnsupported) return;
+  try {
+    const now = Date.now();
+    const stats = readDiskStats();
+    const cpuTimes = readCpuTimes();
+
+    if (lastDiskStats) {
+      const elapsed = (now - lastDiskStats.time) / 1000;
+      latestMetrics.diskIO.devices = Object.entries(stats).map(([name, cur]) => {
+        const prev = lastDiskStats.stats[name] || cur;
+        const reads = cur.reads - prev.reads;
+        const writes = cur.writes - prev.writes;
+        const ios = reads + writes;
+        return {
+          device: name,
+          read_sec: ((cur.readSectors - prev.readSectors) * SECTOR_SIZE) / elapsed,
+          write_sec: ((cur.writeSectors - prev.writeSectors) * SECTOR_SIZE) / elapsed,
+          read_iops: reads / elapsed,
+          write_iops: writes / elapsed,
+          // Average time per request (ms) and share of wall time the device was busy
+          await: ios > 0 ? ((cur.readMs - prev.readMs) + (cur.writeMs - prev.writeMs)) / ios : 0,
+          util: Math.min(100, ((cur.ioMs - prev.ioMs) / (elapsed * 1000)) * 100)
+        };
+      });
+    }
+    if (lastCpuTimes && cpuTimes.total > lastCpuTimes.total) {
+      latestMetrics.diskIO.iowait = ((cpuTimes.iowait - lastCpuTimes.iowait) / (cpuTimes.total - lastCpuTimes.total)) * 100;
+    }
+
+    lastDiskStats = { time: now, stats };
+    lastCpuTimes = cpuTimes;
+  } catch (e) {
+    // /proc is Linux only; stop polling instead of logging every second
+    diskIOUnsupported = true;
+    console.error("Disk I/O metrics unavailable:", e.message);
+  }
+}
+
 async function updateDiskMetrics() {
   try {
     const fsSize = await si.fsSize();
     latestMetrics.disk = fsSize.map(disk => ({
       fs: disk.fs,
+      mount: disk.mount,
       type: disk.type,
       size: disk.size,
       used: disk.used,
@@ -203,77 +2190,996 @@ async function updateDiskMetrics() {
   }
 }
 
-// Record history every 1 minute
-function recordHistory() {
+async function updateProcessMetrics() {
+  try {
+    const { list } = await si.processes();
+    const processes = list.map(p => ({
+      pid: p.pid,
+      name: p.name,
+      user: p.user,
+      cpu: p.cpu,
+      mem: p.mem,
+      rss: p.memRss * 1024,
+      command: [p.command, p.params].filter(Boolean).join(' ')
+    }));
+
+    const byCpu = [...processes].sort((a, b) => b.cpu - a.cpu).slice(0, PROCESS_LIST_SIZE);
+    const byRss = [...processes].sort((a, b) => b.rss - a.rss).slice(0, PROCESS_LIST_SIZE);
+    const seen = new Set();
+    latestMetrics.processes = [...byCpu, ...byRss].filter(p => {
+      if (seen.has(p.pid)) return false;
+      seen.add(p.pid);
+      return true;
+    });
+  } catch (e) {
+    console.error("Error updating process metrics:", e);
+  }
+}
+
+// Previous cumulative network counters per container, for per-second rates
+const containerCounters = new Map();
+let dockerAvailable = null;
+
+async function updateContainerMetrics() {
+  try {
+    const containers = await docker.getContainers(config.dockerSocket);
+    const now = Date.now();
+    latestMetrics.containers = containers.map(({ rxBytes, txBytes, ...c }) => {
+      const last = containerCounters.get(c.id);
+      const elapsed = last ? (now - last.time) / 1000 : 0;
+      if (rxBytes !== null) containerCounters.set(c.id, { rx: rxBytes, tx: txBytes, time: now });
+      return {
+        ...c,
+        rx_sec: rxBytes !== null && elapsed > 0 ? counterDelta(rxBytes, last.rx) / elapsed : null,
+        tx_sec: txBytes !== null && elapsed > 0 ? counterDelta(txBytes, last.tx) / elapsed : null
+      };
+    });
+    const ids = new Set(containers.map(c => c.id));
+    for (const id of containerCounters.keys()) {
+      if (!ids.has(id)) containerCounters.delete(id);
+    }
+    if (dockerAvailable === false) console.log(`Docker socket ${config.dockerSocket} is available again`);
+    dockerAvailable = true;
+  } catch (e) {
+    // No Docker on this host (or no permission): hide containers, log only on change
+    latestMetrics.containers = null;
+    containerCounters.clear();
+    if (dockerAvailable !== false) console.log(`Container monitoring disabled (${config.dockerSocket}): ${e.message}`);
+    dockerAvailable = false;
+  }
+}
+
+// Units to watch: the `systemdUnits` setting, falling back to the config's systemdUnits
+// (SYSTEMD_UNITS) so agents can be configured without the UI
+function getMonitoredUnits() {
+  const configured = getSetting('systemdUnits', null) ?? config.systemdUnits;
+  const units = (Array.isArray(configured) ? configured : [])
+    .map(u => String(u).trim())
+    .filter(systemd.isValidUnitName)
+    .map(systemd.normalizeUnitName);
+  return [...new Set(units)];
+}
+
+let systemdAvailable = null;
+
+async function updateServiceMetrics() {
   try {
-    const totalRx = latestMetrics.network.reduce((acc, curr) => acc + (curr.rx_sec || 0), 0);
-    const totalTx = latestMetrics.network.reduce((acc, curr) => acc + (curr.tx_sec || 0), 0);
-    const diskUsage = latestMetrics.disk[0]?.use || 0;
+    latestMetrics.services = await systemd.getUnitStatus(getMonitoredUnits());
+    if (systemdAvailable === false) console.log('systemd is available again');
+    systemdAvailable = true;
+  } catch (e) {
+    latestMetrics.services = null;
+    if (systemdAvailable !== false) console.log(`Service monitoring disabled: ${e.message}`);
+    systemdAvailable = false;
+  }
+}
+
+// Record units entering `failed`, and leaving it again, as service events
+const recordServiceEvents = systemd.createServiceEventRecorder(db);
+
+// SQLite-compatible UTC timestamp, so rows written together share one value
+const SQLITE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+function toSqliteTime(date) {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function sqliteNow() {
+  return toSqliteTime(new Date());
+}
+
+function fromSqliteTime(value) {
+  return value ? Date.parse(`${value.replace(' ', 'T')}Z`) : null;
+}
+
+// Start and end of the history interval a sample falls in. Samples of one node taken
+// on different clocks (the hub's and a replaying agent's) land in the same bucket.
+function historyBucket(timestamp) {
+  const size = config.intervals.history * 1000;
+  const start = Math.floor(fromSqliteTime(timestamp) / size) * size;
+  return [toSqliteTime(new Date(start)), toSqliteTime(new Date(start + size))];
+}
+
+// Write one history sample (metrics, per-interface traffic, top processes) for a node in
+// a single transaction. Throws when the database is unavailable; returns false when the
+// node already has a sample in this history interval (a replayed or re-sent sample).
+function recordNodeHistory(nodeId, metrics, timestamp) {
+  return db.transaction(() => {
+    const [bucketStart, bucketEnd] = historyBucket(timestamp);
+    const existing = db.prepare('SELECT 1 FROM metrics WHERE node_id = ? AND timestamp >= ? AND timestamp < ?');
+    if (existing.get(nodeId, bucketStart, bucketEnd)) return false;
+
+    const counted = getCountedInterfaces(metrics.network);
+    const totalRx = counted.reduce((acc, curr) => acc + (curr.rx_sec || 0), 0);
+    const totalTx = counted.reduce((acc, curr) => acc + (curr.tx_sec || 0), 0);
+    const diskUsage = metrics.disk[0]?.use || 0;
 
     const stmt = db.prepare(`
-      INSERT INTO metrics (cpu_load, mem_percentage, net_rx, net_tx, disk_usage)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO metrics (
+        node_id, timestamp, cpu_load, mem_percentage, net_rx, net_tx, disk_usage,
+        load_1, load_5, load_15, cpu_steal, cpu_temp, cpu_speed,
+        disk_read, disk_write, disk_iops, disk_iowait
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
+    const ioDevices = metrics.diskIO.devices;
+    const sumIO = (key) => ioDevices.reduce((acc, curr) => acc + (curr[key] || 0), 0);
+    const loadAvg = metrics.cpu.loadAvg || [];
     stmt.run(
-      latestMetrics.cpu.load || 0,
-      latestMetrics.memory.percentage || 0,
+      nodeId,
+      timestamp,
+      metrics.cpu.load || 0,
+      metrics.memory.percentage || 0,
       totalRx,
       totalTx,
-      diskUsage
+      diskUsage,
+      loadAvg[0] ?? null,
+      loadAvg[1] ?? null,
+      loadAvg[2] ?? null,
+      metrics.cpu.steal ?? null,
+      metrics.cpu.temperature ?? null,
+      metrics.cpu.speedCurrent ?? null,
+      sumIO('read_sec'),
+      sumIO('write_sec'),
+      sumIO('read_iops') + sumIO('write_iops'),
+      metrics.diskIO.iowait
     );
+
+    const insertNetwork = db.prepare(`
+      INSERT INTO network_history (node_id, timestamp, iface, rx, tx) VALUES (?, ?, ?, ?, ?)
+    `);
+    metrics.network.forEach(n => insertNetwork.run(nodeId, timestamp, n.iface, n.rx_sec || 0, n.tx_sec || 0));
+
+    const insertProcess = db.prepare(`
+      INSERT INTO process_history (node_id, timestamp, pid, name, user, cpu, rss, command)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    [...(metrics.processes || [])]
+      .sort((a, b) => b.cpu - a.cpu)
+      .slice(0, PROCESS_HISTORY_SIZE)
+      .forEach(p => insertProcess.run(nodeId, timestamp, p.pid, p.name, p.user, p.cpu, p.rss, p.command));
+
+    const insertContainer = db.prepare(`
+      INSERT INTO container_history (node_id, timestamp, name, image, cpu, mem, rx, tx)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    (metrics.containers || [])
+      .filter(c => c.state === 'running')
+      .forEach(c => insertContainer.run(nodeId, timestamp, c.name, c.image, c.cpu, c.mem, c.rx_sec, c.tx_sec));
+
+    recordServiceEvents(nodeId, metrics.services, timestamp);
+    return true;
+  })();
+}
+
+// The part of a metrics object that recordNodeHistory stores, small enough to queue on disk
+// Missing groups (older agents, idle collectors) become empty values.
+function toHistorySample(metrics) {
+  const list = (value) => (Array.isArray(value) ? value : []);
+  return {
+    cpu: {
+      load: metrics.cpu.load,
+      loadAvg: metrics.cpu.loadAvg,
+      steal: metrics.cpu.steal,
+      temperature: metrics.cpu.temperature,
+      speedCurrent: metrics.cpu.speedCurrent
+    },
+    memory: { percentage: metrics.memory?.percentage },
+    network: list(metrics.network),
+    disk: list(metrics.disk).slice(0, 1),
+    diskIO: { devices: list(metrics.diskIO?.devices), iowait: metrics.diskIO?.iowait ?? null },
+    processes: [...list(metrics.processes)].sort((a, b) => b.cpu - a.cpu).slice(0, PROCESS_HISTORY_SIZE),
+    containers: list(metrics.containers).filter(c => c.state === 'running'),
+    services: list(metrics.services)
+  };
+}
+
+// --- Spooling ---
+// History samples that could not be written (database errors) or sent (agent cut off
+// from its hub) are queued on disk and written in order once possible. Replays are
+// safe: recordNodeHistory skips intervals it already has a sample for.
+const SPOOL_MAX_ENTRIES = 7 * 24 * 60;
+const SPOOL_BATCH_SIZE = 500;
+const BACKFILL_ACK_TIMEOUT_MS = 30000;
+
+/** @type {ReturnType<typeof createSpool> | null} */
+let historySpool = null;
+try {
+  historySpool = createSpool(path.join(path.dirname(config.dbPath), 'history-spool.jsonl'), SPOOL_MAX_ENTRIES);
+  if (historySpool.size > 0) console.log(`${historySpool.size} spooled history samples waiting to be written`);
+} catch (e) {
+  console.error("Error opening history spool:", e);
+}
+
+// Earliest timestamp written late per node, so the next rollup revisits those buckets
+const backfilledSince = new Map();
+
+function markBackfilled(nodeId, timestamp) {
+  const since = backfilledSince.get(nodeId);
+  if (!since || timestamp < since) backfilledSince.set(nodeId, timestamp);
+}
+
+// Write the queued samples, oldest first, stopping at the first failure
+function flushHistorySpool() {
+  let written = 0;
+  while (historySpool.size > 0) {
+    const batch = historySpool.peek(SPOOL_BATCH_SIZE);
+    let done = 0;
+    let error = null;
+    for (const entry of batch) {
+      try {
+        recordNodeHistory(entry.nodeId, entry.sample, entry.timestamp);
+      } catch (e) {
+        error = e;
+        break;
+      }
+      markBackfilled(entry.nodeId, entry.timestamp);
+      done++;
+    }
+    try {
+      if (done > 0) historySpool.drop(batch.slice(0, done));
+    } catch (e) {
+      console.error("Error updating history spool:", e);
+      break;
+    }
+    written += done;
+    if (error) {
+      console.error(`Error writing spooled history (${historySpool.size} queued):`, error.message);
+      break;
+    }
+  }
+  if (written > 0) console.log(`Wrote ${written} spooled history samples`);
+}
+
+// Write a history sample, queueing it on disk when the database write fails. While
+// older samples are queued, new ones wait behind them to keep history in order.
+function storeHistorySample(nodeId, sample, timestamp) {
+  if (historySpool?.size > 0) {
+    if (historySpool.push({ nodeId, timestamp, sample })) flushHistorySpool();
+    return;
+  }
+  try {
+    recordNodeHistory(nodeId, sample, timestamp);
+  } catch (e) {
+    console.error(`Error recording history for node ${nodeId}:`, e);
+    historySpool?.push({ nodeId, timestamp, sample });
+  }
+}
+
+// Agent role: every history sample, queued until the hub acknowledges it through `backfill`
+/** @type {ReturnType<typeof createSpool> | null} */
+let hubSpool = null;
+if (ROLE === 'agent') {
+  try {
+    hubSpool = createSpool(path.join(path.dirname(config.dbPath), 'hub-spool.jsonl'), SPOOL_MAX_ENTRIES);
+  } catch (e) {
+    console.error("Error opening hub spool:", e);
+  }
+}
+let backfillPending = false;
+
+// Send queued samples to the hub in batches; each batch is dropped once the hub acknowledges it
+function sendBackfill() {
+  if (!hubSpool || hubSpool.size === 0 || backfillPending || !hubSocket?.connected) return;
+  const batch = hubSpool.peek(SPOOL_BATCH_SIZE);
+  backfillPending = true;
+  hubSocket.timeout(BACKFILL_ACK_TIMEOUT_MS).emit('backfill', batch, (err) => {
+    backfillPending = false;
+    if (err) {
+      console.error('Hub did not acknowledge backfill:', err.message);
+      return;
+    }
+    try {
+      hubSpool.drop(batch);
+    } catch (e) {
+      console.error("Error updating hub spool:", e);
+      return;
+    }
+    // A single sample is the normal per-interval delivery
+    if (batch.length > 1) console.log(`Sent ${batch.length} queued samples to the hub, ${hubSpool.size} left`);
+    sendBackfill();
+  });
+}
+
+// Record history every 1 minute, for this machine and every connected agent
+function recordHistory() {
+  const timestamp = sqliteNow();
+  if (hasMetrics(latestMetrics)) {
+    const sample = toHistorySample(latestMetrics);
+    storeHistorySample(LOCAL_NODE_ID, sample, timestamp);
+    // Live metrics are sent volatile and `connected` stays true until a dropped connection
+    // times out, so every sample goes through the spool until the hub acknowledges it
+    hubSpool?.push({ timestamp, sample });
+  }
+  touchNodeStatus(LOCAL_NODE_ID, timestamp);
+  checkReboot(LOCAL_NODE_ID, latestMetrics.uptime);
+  // Metrics older than an interval are from an agent whose connection dropped without a
+  // disconnect yet; its own samples for that time arrive later through the backfill
+  const staleBefore = Date.now() - config.intervals.history * 1000;
+  for (const node of remoteNodes.values()) {
+    if (node.socket && hasMetrics(node.metrics) && node.lastSeen > staleBefore) {
+      storeHistorySample(node.id, toHistorySample(node.metrics), timestamp);
+      touchNodeStatus(node.id, timestamp);
+    }
+  }
+  sendBackfill();
+}
+
+// A gap longer than this between samples of the local node counts as an outage
+const OUTAGE_THRESHOLD_MS = 2 * 60 * 1000;
+// Boot time is derived from uptime, so allow some jitter before calling it a reboot
+const REBOOT_TOLERANCE_MS = 60 * 1000;
+
+function getNodeStatus(nodeId) {
+  db.prepare('INSERT OR IGNORE INTO node_status (node_id, tracking_since) VALUES (?, ?)').run(nodeId, sqliteNow());
+  return db.prepare('SELECT * FROM node_status WHERE node_id = ?').get(nodeId);
+}
+
+function touchNodeStatus(nodeId, timestamp) {
+  try {
+    getNodeStatus(nodeId);
+    db.prepare('UPDATE node_status SET last_seen = ? WHERE node_id = ?').run(timestamp, nodeId);
+  } catch (e) {
+    console.error("Error updating node status:", e);
+  }
+}
+
+function openOutage(nodeId, startedAt) {
+  const open = db.prepare('SELECT id FROM outages WHERE node_id = ? AND ended_at IS NULL').get(nodeId);
+  if (!open) {
+    db.prepare('INSERT INTO outages (node_id, started_at) VALUES (?, ?)').run(nodeId, startedAt);
+  }
+}
+
+function closeOutage(nodeId, endedAt) {
+  db.prepare('UPDATE outages SET ended_at = ? WHERE node_id = ? AND ended_at IS NULL').run(endedAt, nodeId);
+}
+
+// Last known boot time per node (ms), cached so remote metrics can be checked every second
+const bootTimes = new Map();
+
+// A boot time later than the one on record means the node rebooted. The outage
+// covering the reboot is tagged as such, or one is added for reboots too quick to
+// have been noticed as an outage.
+function checkReboot(nodeId, uptime) {
+  if (!uptime) return;
+  try {
+    const bootTime = Date.now() - uptime * 1000;
+    if (!bootTimes.has(nodeId)) bootTimes.set(nodeId, fromSqliteTime(getNodeStatus(nodeId).boot_time));
+    const previous = bootTimes.get(nodeId);
+    if (previous !== null && Math.abs(bootTime - previous) < REBOOT_TOLERANCE_MS) return;
+
+    bootTimes.set(nodeId, bootTime);
+    const bootedAt = toSqliteTime(new Date(bootTime));
+    db.prepare('UPDATE node_status SET boot_time = ? WHERE node_id = ?').run(bootedAt, nodeId);
+    if (previous === null || bootTime < previous) return;
+
+    const outage = db.prepare(`
+      SELECT id FROM outages
+      WHERE node_id = ? AND (ended_at IS NULL OR ended_at >= ?)
+      ORDER BY started_at DESC LIMIT 1
+    `).get(nodeId, bootedAt);
+    if (outage) {
+      db.prepare("UPDATE outages SET reason = 'reboot' WHERE id = ?").run(outage.id);
+    } else {
+      const lastSeen = getNodeStatus(nodeId).last_seen;
+      const startedAt = lastSeen && lastSeen < bootedAt ? lastSeen : bootedAt;
+      db.prepare("INSERT INTO outages (node_id, started_at, ended_at, reason) VALUES (?, ?, ?, 'reboot')").run(nodeId, startedAt, bootedAt);
+    }
+    console.log(`Reboot detected for node ${nodeId} at ${bootedAt}`);
+  } catch (e) {
+    console.error("Error checking reboot:", e);
+  }
+}
+
+// On startup, the time since the local node was last seen is an outage (the monitor or
+// the machine was down). Remote nodes are down until their agent reconnects.
+function resumeUptimeTracking() {
+  try {
+    const now = sqliteNow();
+    const lastSeen = getNodeStatus(LOCAL_NODE_ID).last_seen;
+    if (lastSeen && Date.now() - fromSqliteTime(lastSeen) > OUTAGE_THRESHOLD_MS) {
+      db.prepare('INSERT INTO outages (node_id, started_at, ended_at) VALUES (?, ?, ?)').run(LOCAL_NODE_ID, lastSeen, now);
+    }
+    touchNodeStatus(LOCAL_NODE_ID, now);
+    checkReboot(LOCAL_NODE_ID, os.uptime());
+
+    for (const node of remoteNodes.values()) {
+      openOutage(node.id, getNodeStatus(node.id).last_seen || now);
+    }
+  } catch (e) {
+    console.error("Error resuming uptime tracking:", e);
+  }
+}
+
+// Downtime in ms of the given outages within [start, end)
+function sumDowntime(outages, start, end) {
+  return outages.reduce((total, outage) => {
+    const from = Math.max(start, fromSqliteTime(outage.started_at));
+    const to = Math.min(end, outage.ended_at ? fromSqliteTime(outage.ended_at) : Date.now());
+    return total + Math.max(0, to - from);
+  }, 0);
+}
+
+function getOutages(nodeId, from, to) {
+  return db.prepare(`
+    SELECT id, started_at, ended_at, reason FROM outages
+    WHERE node_id = ? AND started_at < ? AND (ended_at IS NULL OR ended_at > ?)
+    ORDER BY started_at ASC
+  `).all(nodeId, toSqliteTime(new Date(to)), toSqliteTime(new Date(from)));
+}
+
+// Availability over [from, to) in ms, counting only time since tracking started.
+// `availability` is null when nothing of the window has been tracked yet.
+function getAvailability(nodeId, from, to, outages = getOutages(nodeId, from, to)) {
+  const start = Math.max(from, fromSqliteTime(getNodeStatus(nodeId).tracking_since));
+  const end = Math.min(to, Date.now());
+  if (end <= start) return { availability: null, downtime: 0, outages: 0 };
+  const relevant = outages.filter(o =>
+    fromSqliteTime(o.started_at) < end && (!o.ended_at || fromSqliteTime(o.ended_at) > start)
+  );
+  const downtime = sumDowntime(relevant, start, end);
+  return {
+    availability: 100 * (1 - downtime / (end - start)),
+    downtime: Math.round(downtime / 1000),
+    outages: relevant.length
+  };
+}
+
+// How traffic counts against the quota: both directions, one direction, or the larger one
+const BANDWIDTH_MODES = ['both', 'out', 'in', 'max'];
+// Projections made earlier than this in a billing period are too noisy to alert on
+const MIN_PROJECTION_MS = 24 * 60 * 60 * 1000;
+
+function formatLocalDate(date) {
+  const pad = (n) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Billing period containing `date`. Periods start at 00:00 local time on the reset
+// day, clamped to the last day of shorter months.
+function getBillingPeriod(resetDay, date = new Date()) {
+  const periodStart = (year, month) =>
+    new Date(year, month, Math.min(resetDay, new Date(year, month + 1, 0).getDate()));
+  let start = periodStart(date.getFullYear(), date.getMonth());
+  if (start > date) start = periodStart(date.getFullYear(), date.getMonth() - 1);
+  const end = periodStart(start.getFullYear(), start.getMonth() + 1);
+  return { start, end };
+}
+
+function getResetDay() {
+  return Math.min(31, Math.max(1, parseInt(getSetting('bandwidthResetDay', 1), 10) || 1));
+}
+
+// A counter lower than the stored one means the host rebooted (or the interface
+// was recreated), so everything counted since then is new traffic
+function counterDelta(current, last) {
+  if (last === undefined) return 0;
+  return current >= last ? current - last : current;
+}
+
+function countTraffic(mode, rx, tx) {
+  switch (mode) {
+    case 'out': return tx;
+    case 'in': return rx;
+    case 'max': return Math.max(rx, tx);
+    default: return rx + tx;
+  }
+}
+
+// Add the traffic since the last run to the current billing period, using kernel
+// counters so nothing is lost between samples or across restarts of this process.
+function accountBandwidth() {
+  try {
+    const periodStart = formatLocalDate(getBillingPeriod(getResetDay()).start);
+    const selectCounter = db.prepare('SELECT rx_bytes, tx_bytes FROM network_counters WHERE iface = ?');
+    const upsertCounter = db.prepare(`
+      INSERT OR REPLACE INTO network_counters (iface, rx_bytes, tx_bytes, updated_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+    const addUsage = db.prepare(`
+      INSERT INTO bandwidth_usage (period_start, iface, rx_bytes, tx_bytes) VALUES (?, ?, ?, ?)
+      ON CONFLICT (period_start, iface) DO UPDATE SET
+        rx_bytes = rx_bytes + excluded.rx_bytes,
+        tx_bytes = tx_bytes + excluded.tx_bytes
+    `);
+
+    db.transaction(() => {
+      for (const [iface, counter] of networkCounters) {
+        const previous = selectCounter.get(iface);
+        const rx = counterDelta(counter.rx, previous?.rx_bytes);
+        const tx = counterDelta(counter.tx, previous?.tx_bytes);
+        if (rx > 0 || tx > 0) addUsage.run(periodStart, iface, rx, tx);
+        upsertCounter.run(iface, counter.rx, counter.tx);
+      }
+    })();
+  } catch (e) {
+    console.error("Error accounting bandwidth:", e);
+  }
+}
+
+function getBandwidthSummary() {
+  const resetDay = getResetDay();
+  const quotaGB = Number(getSetting('bandwidthQuota', 0)) || 0;
+  const storedMode = getSetting('bandwidthMode', 'both');
+  const mode = BANDWIDTH_MODES.includes(storedMode) ? storedMode : 'both';
+  const excludeVirtual = getSetting('excludeVirtualIfaces', true) !== false;
+  const { start, end } = getBillingPeriod(resetDay);
+
+  const interfaces = db.prepare(`
+    SELECT iface, rx_bytes as rx, tx_bytes as tx FROM bandwidth_usage
+    WHERE period_start = ?
+    ORDER BY iface ASC
+  `).all(formatLocalDate(start)).map(row => ({ ...row, virtual: isVirtualIface(row.iface) }));
+  const counted = interfaces.filter(i => !(excludeVirtual && i.virtual));
+  const rx = counted.reduce((acc, curr) => acc + curr.rx, 0);
+  const tx = counted.reduce((acc, curr) => acc + curr.tx, 0);
+  const used = countTraffic(mode, rx, tx);
+
+  const elapsed = Date.now() - start.getTime();
+  const projected = elapsed > 0 ? used * (end.getTime() - start.getTime()) / elapsed : used;
+  const quota = quotaGB * 1024 ** 3;
+
+  return {
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString(),
+    resetDay,
+    mode,
+    quota,
+    rx,
+    tx,
+    used,
+    remaining: quota > 0 ? Math.max(0, quota - used) : null,
+    projected,
+    projectionReliable: elapsed >= MIN_PROJECTION_MS,
+    interfaces
+  };
+}
+
+// Aggregate completed buckets into the rollup tiers. The newest existing bucket is
+// recomputed each run so rows that arrived after it was first written are included.
+function rollupHistory() {
+  const backfilled = new Map(backfilledSince);
+  backfilledSince.clear();
+  try {
+    const columnNames = (columns) => columns.map(c => `${c}, ${c}_min, ${c}_max`).join(', ');
+    for (const name of ROLLUP_TIERS) {
+      const tier = HISTORY_TIERS[name];
+      const source = HISTORY_TIERS[tier.source];
+      const aggregates = (columns) => columns.map(c => (tier.source === 'raw'
+        ? `AVG(${c}), MIN(${c}), MAX(${c})`
+        : `AVG(${c}), MIN(${c}_min), MAX(${c}_max)`)).join(', ');
+      const bucket = `datetime((CAST(strftime('%s', timestamp) AS INTEGER) / ${tier.seconds}) * ${tier.seconds}, 'unixepoch')`;
+      const end = toSqliteTime(new Date(Math.floor(Date.now() / 1000 / tier.seconds) * tier.seconds * 1000));
+
+      // Start of the bucket holding `timestamp`, in the same format as the rollup tables
+      const bucketStart = (timestamp) => toSqliteTime(new Date(Math.floor(fromSqliteTime(timestamp) / 1000 / tier.seconds) * tier.seconds * 1000));
+      // Backfilled samples may land before a node's latest bucket, so start there instead
+      const resumeFrom = (nodeId, last) => {
+        const since = backfilled.get(nodeId);
+        return since && bucketStart(since) < last ? bucketStart(since) : last;
+      };
+
+      // Each node resumes from its own latest bucket, so an agent that was offline
+      // does not leave holes behind other nodes' progress
+      for (const nodeId of [LOCAL_NODE_ID, ...remoteNodes.keys()]) {
+        const lastMetrics = resumeFrom(nodeId, db.prepare(`SELECT MAX(timestamp) as ts FROM ${tier.table} WHERE node_id = ?`).get(nodeId).ts || '');
+        db.prepare(`
+          INSERT OR REPLACE INTO ${tier.table} (node_id, timestamp, ${columnNames(ROLLUP_COLUMNS)})
+          SELECT node_id, ${bucket}, ${aggregates(ROLLUP_COLUMNS)}
+          FROM ${source.table}
+          WHERE node_id = ? AND timestamp >= ? AND timestamp < ?
+          GROUP BY 2
+        `).run(nodeId, lastMetrics, end);
+
+        const lastNetwork = resumeFrom(nodeId, db.prepare(`SELECT MAX(timestamp) as ts FROM ${tier.networkTable} WHERE node_id = ?`).get(nodeId).ts || '');
+        db.prepare(`
+          INSERT OR REPLACE INTO ${tier.networkTable} (node_id, timestamp, iface, ${columnNames(NETWORK_ROLLUP_COLUMNS)})
+          SELECT node_id, ${bucket}, iface, ${aggregates(NETWORK_ROLLUP_COLUMNS)}
+          FROM ${source.networkTable}
+          WHERE node_id = ? AND timestamp >= ? AND timestamp < ?
+          GROUP BY 2, iface
+        `).run(nodeId, lastNetwork, end);
+      }
+    }
   } catch (e) {
-    console.error("Error recording history:", e);
+    console.error("Error rolling up history:", e);
+    backfilled.forEach((timestamp, nodeId) => markBackfilled(nodeId, timestamp));
   }
 }
 
-// Cleanup history older than 7 days
+// Cleanup history past each tier's retention
 function cleanupHistory() {
   try {
-    db.prepare("DELETE FROM metrics WHERE timestamp < datetime('now', '-7 days')").run();
+    const retention = getRetention();
+    const cutoff = (days) => `-${days} days`;
+    db.prepare("DELETE FROM metrics WHERE timestamp < datetime('now', ?)").run(cutoff(retention.raw));
+    db.prepare("DELETE FROM process_history WHERE timestamp < datetime('now', ?)").run(cutoff(retention.raw));
+    db.prepare("DELETE FROM network_history WHERE timestamp < datetime('now', ?)").run(cutoff(retention.raw));
+    db.prepare("DELETE FROM container_history WHERE timestamp < datetime('now', ?)").run(cutoff(retention.raw));
+    for (const name of ROLLUP_TIERS) {
+      const tier = HISTORY_TIERS[name];
+      db.prepare(`DELETE FROM ${tier.table} WHERE timestamp < datetime('now', ?)`).run(cutoff(retention[name]));
+      db.prepare(`DELETE FROM ${tier.networkTable} WHERE timestamp < datetime('now', ?)`).run(cutoff(retention[name]));
+    }
+    db.prepare("DELETE FROM alerts WHERE timestamp < datetime('now', '-30 days')").run();
+    db.prepare("DELETE FROM auth_tokens WHERE expires_at IS NOT NULL AND expires_at < datetime('now')").run();
+    db.prepare("DELETE FROM bandwidth_usage WHERE period_start < date('now', '-1 year')").run();
+    db.prepare("DELETE FROM outages WHERE ended_at < datetime('now', '-1 year')").run();
+    db.prepare("DELETE FROM service_events WHERE timestamp < datetime('now', '-1 year')").run();
+    db.prepare("DELETE FROM probe_results WHERE timestamp < datetime('now', ?)").run(cutoff(PROBE_RETENTION_DAYS));
   } catch (e) {
     console.error("Error cleaning up history:", e);
   }
 }
 
+// Alert rule runtime state: ruleId -> { state: 'pending' | 'firing', since }
+const alertStates = new Map();
+
+// Restore firing rules after a restart so they resolve instead of firing twice
+function restoreAlertStates() {
+  try {
+    const rows = db.prepare(`
+      SELECT rule_id, state, timestamp FROM alerts
+      WHERE id IN (SELECT MAX(id) FROM alerts GROUP BY rule_id)
+    `).all();
+    rows.forEach(row => {
+      if (row.state === 'firing') {
+        alertStates.set(row.rule_id, { state: 'firing', since: Date.now() });
+      }
+    });
+  } catch (e) {
+    console.error("Error restoring alert states:", e);
+  }
+}
+
+function getRuleValue(rule) {
+  switch (rule.metric) {
+    case 'cpu':
+      return latestMetrics.cpu.load;
+    case 'load':
+      return latestMetrics.cpu.loadAvg?.[0];
+    case 'steal':
+      return latestMetrics.cpu.steal;
+    case 'mem':
+      return latestMetrics.memory.percentage;
+    case 'disk': {
+      const disk = rule.target
+        ? latestMetrics.disk.find(d => d.mount === rule.target || d.fs === rule.target)
+        : latestMetrics.disk[0];
+      return disk?.use;
+    }
+    case 'iowait':
+      return latestMetrics.diskIO.iowait ?? undefined;
+    case 'net_rx':
+    case 'net_tx': {
+      const key = rule.metric === 'net_rx' ? 'rx_sec' : 'tx_sec';
+      const ifaces = rule.target
+        ? latestMetrics.network.filter(n => n.iface === rule.target)
+        : getCountedInterfaces(latestMetrics.network);
+      if (ifaces.length === 0) return undefined;
+      return ifaces.reduce((acc, curr) => acc + (curr[key] || 0), 0);
+    }
+    case 'bandwidth': {
+      const summary = getBandwidthSummary();
+      if (!summary.quota || !summary.projectionReliable) return undefined;
+      return summary.projected / summary.quota * 100;
+    }
+    case 'probe_failed':
+    case 'probe_latency': {
+      // Target is a probe name; without one, all enabled probes count
+      const probes = db.prepare('SELECT id, name FROM probes WHERE enabled = 1').all()
+        .filter(p => !rule.target || p.name === rule.target)
+        .map(p => probeStates.get(p.id))
+        .filter(Boolean);
+      if (probes.length === 0) return undefined;
+      if (rule.metric === 'probe_failed') return probes.filter(p => !p.success).length;
+      return Math.max(...probes.map(p => p.latency));
+    }
+    default:
+      return undefined;
+  }
+}
+
+// `note` replaces the default message, e.g. when a rule change ends the alert
+function recordAlert(rule, state, value, note) {
+  const meta = ALERT_METRICS[rule.metric];
+  const subject = rule.target ? `${meta.label} (${rule.target})` : meta.label;
+  const current = `当前值 ${Math.round(value * 100) / 100}${meta.unit}`;
+  const message = note
+    ? `${subject} ${note}，${current}`
+    : state === 'firing'
+      ? `${subject} ${rule.operator} ${rule.threshold}${meta.unit}，${current}`
+      : `${subject} 已恢复，${current}`;
+
+  const result = db.prepare(`
+    INSERT INTO alerts (rule_id, rule_name, state, value, message)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(rule.id, rule.name, state, value, message);
+  const alert = db.prepare('SELECT * FROM alerts WHERE id = ?').get(result.lastInsertRowid);
+  io.emit('alert', alert);
+  notifyChannels(alert);
+}
+
+// Fields that decide whether a rule fires; changing any of them ends a firing alert
+const RULE_CONDITION_FIELDS = ['metric', 'target', 'operator', 'threshold', 'hysteresis'];
+
+// Resolve a firing rule outside of evaluation (rule disabled, changed or deleted)
+function resolveAlert(rule, note) {
+  alertStates.delete(rule.id);
+  const value = getRuleValue(rule);
+  recordAlert(rule, 'resolved', typeof value === 'number' && !Number.isNaN(value) ? value : 0, note);
+}
+
+// Last delivery time per channel, rule and state ("<channel>:<rule>:<state>"), so the
+// rate limit only holds back repeats of the same notification: a 'resolved' or an
+// alert from another rule still goes through right after a 'firing'
+const channelLastSent = new Map();
+
+const rateLimitKey = (channelId, alert) => `${channelId}:${alert.rule_id}:${alert.state}`;
+
+function forgetChannelRateLimit(channelId) {
+  for (const key of channelLastSent.keys()) {
+    if (key.startsWith(`${channelId}:`)) channelLastSent.delete(key);
+  }
+}
+
+function notifyChannels(alert) {
+  let channels;
+  try {
+    channels = db.prepare('SELECT * FROM notification_channels WHERE enabled = 1').all().map(formatChannel);
+  } catch (e) {
+    console.error("Error loading notification channels:", e);
+    return;
+  }
+
+  const vars = {
+    server: os.hostname(),
+    rule: alert.rule_name,
+    state: alert.state,
+    message: alert.message,
+    value: Math.round(alert.value * 100) / 100,
+    time: new Date().toLocaleString()
+  };
+
+  channels.forEach(channel => {
+    const now = Date.now();
+    const key = rateLimitKey(channel.id, alert);
+    const last = channelLastSent.get(key) || 0;
+    if (now - last < channel.rate_limit * 1000) {
+      console.log(`Notification to channel "${channel.name}" suppressed by rate limit`);
+      return;
+    }
+    channelLastSent.set(key, now);
+
+    sendWithRetry(channel.type, channel.config, renderTemplate(channel.template, vars), vars)
+      .catch(e => console.error(`Failed to notify channel "${channel.name}":`, e.message));
+  });
+}
+
+// Evaluate every enabled rule against latestMetrics.
+// A rule fires once its condition has held for `duration` seconds and only resolves
+// after the value has moved back past the threshold by `hysteresis`.
+function evaluateAlertRules() {
+  try {
+    const rules = db.prepare('SELECT * FROM alert_rules WHERE enabled = 1').all();
+    const now = Date.now();
+
+    rules.forEach(rule => {
+      const value = getRuleValue(rule);
+      if (typeof value !== 'number' || Number.isNaN(value)) return;
+
+      const breached = rule.operator === '>' ? value > rule.threshold : value < rule.threshold;
+      const recovered = rule.operator === '>'
+        ? value < rule.threshold - rule.hysteresis
+        : value > rule.threshold + rule.hysteresis;
+      const current = alertStates.get(rule.id);
+
+      if (current?.state === 'firing') {
+        if (recovered) {
+          alertStates.delete(rule.id);
+          recordAlert(rule, 'resolved', value);
+        }
+        return;
+      }
+
+      if (!breached) {
+        alertStates.delete(rule.id);
+        return;
+      }
+
+      const since = current?.since || now;
+      if (now - since >= rule.duration * 1000) {
+        alertStates.set(rule.id, { state: 'firing', since: now });
+        recordAlert(rule, 'firing', value);
+      } else if (!current) {
+        alertStates.set(rule.id, { state: 'pending', since });
+      }
+    });
+  } catch (e) {
+    console.error("Error evaluating alert rules:", e);
+  }
+}
+
+// Expensive collectors only run at full rate (config.intervals.<group>) while some client
+// watches their group. Otherwise they sample once per history interval, which
+// recordHistory() still needs.
+const ON_DEMAND_COLLECTORS = [
+  { group: 'processes', update: updateProcessMetrics }, // si.processes() is comparatively expensive
+  { group: 'containers', update: updateContainerMetrics }, // one-shot stats take about a second each
+  { group: 'services', update: updateServiceMetrics }
+];
+const collectorRuns = new Map();
+
+function runOnDemandCollectors() {
+  const now = Date.now();
+  for (const collector of ON_DEMAND_COLLECTORS) {
+    if (!config.collectors.includes(collector.group)) continue;
+    const run = collectorRuns.get(collector.group) || { last: 0, running: false };
+    const seconds = isGroupWatched(collector.group) ? config.intervals[collector.group] : config.intervals.history;
+    const interval = seconds * 1000;
+    if (run.running || now - run.last < interval) continue;
+    collectorRuns.set(collector.group, { last: now, running: true });
+    collector.update().finally(() => {
+      collectorRuns.get(collector.group).running = false;
+    });
+  }
+}
+
+// Loops whose interval or on/off state comes from the config, rescheduled on reload
+let configuredTimers = [];
+
+function scheduleConfiguredTasks() {
+  configuredTimers.forEach(clearInterval);
+  const { intervals } = config;
+  const every = (seconds, task) => setInterval(task, seconds * 1000);
+  const enabled = (collector) => config.collectors.includes(collector);
+  configuredTimers = [
+    // CPU load, memory and uptime; also pushes the metrics to subscribers
+    every(intervals.fast, updateFastMetrics),
+    // Network rates (si.networkStats measures over its own 1s window)
+    enabled('network') && every(intervals.network, updateNetworkMetrics),
+    enabled('diskIO') && every(intervals.diskIO, updateDiskIOMetrics),
+    // Filesystem usage changes slowly
+    enabled('disk') && every(intervals.disk, updateDiskMetrics),
+    // CPU temperature / frequency
+    enabled('sensors') && every(intervals.sensors, updateCpuSensors),
+    every(intervals.history, recordHistory),
+    every(intervals.cleanup, cleanupHistory)
+  ].filter(Boolean);
+}
+
+// Clear what disabled collectors reported last, so stale values are not shown or recorded
+function clearDisabledCollectors() {
+  const empty = createEmptyMetrics();
+  for (const collector of COLLECTORS) {
+    if (config.collectors.includes(collector)) continue;
+    if (collector === 'sensors') cpuSensors = { temperature: null, speedCurrent: null };
+    else latestMetrics[collector] = empty[collector];
+  }
+}
+
 // Background Loops
 async function startBackgroundTasks() {
   await getStaticData();
-  
-  // Update fast metrics every 1s
-  setInterval(updateFastMetrics, 1000);
-  
-  // Update network metrics every 1s (it has its own 1s delay internal)
-  setInterval(updateNetworkMetrics, 1000);
-  
-  // Update disk metrics every 10s (slowly changing)
-  updateDiskMetrics();
-  setInterval(updateDiskMetrics, 10000);
 
-  // Record history every 1 minute
-  setInterval(recordHistory, 60000);
+  const enabled = (collector) => config.collectors.includes(collector);
+  if (enabled('diskIO')) updateDiskIOMetrics();
+  if (enabled('disk')) updateDiskMetrics();
+  if (enabled('sensors')) updateCpuSensors();
+  scheduleConfiguredTasks();
+
+  // Update processes, containers and systemd units when due (see ON_DEMAND_COLLECTORS)
+  runOnDemandCollectors();
+  setInterval(runOnDemandCollectors, 1000);
+
+  // Accumulate monthly traffic from the kernel counters every minute
+  setTimeout(accountBandwidth, 2000);
+  setInterval(accountBandwidth, 60000);
   
-  // Cleanup history every hour
-  setInterval(cleanupHistory, 3600000);
+  // Evaluate alert rules every 5s
+  restoreAlertStates();
+  setInterval(evaluateAlertRules, 5000);
+
+  // Run due service checks every 5s
+  restoreProbeStates();
+  setInterval(runDueProbes, 5000);
+
+  // Roll raw samples up into the 5m / 1h tiers every 5 minutes
+  rollupHistory();
+  setInterval(rollupHistory, 300000);
   
   // Initial calls
   updateFastMetrics();
-  updateNetworkMetrics();
+  if (enabled('network')) updateNetworkMetrics();
+}
+
+// Options that only take effect when the server starts
+const RESTART_ONLY_OPTIONS = ['port', 'host', 'dbPath', 'tls', 'role', 'hubUrl', 'agentToken'];
+
+// `kill -HUP <pid>` re-reads the config file and environment. An invalid file keeps
+// the running configuration.
+function reloadConfig() {
+  let next;
+  try {
+    ({ config: next, file: configFile } = loadConfig());
+  } catch (e) {
+    console.error(`Config reload failed, keeping the current configuration.\n${e.message}`);
+    return;
+  }
+  const pending = RESTART_ONLY_OPTIONS.filter(key => JSON.stringify(next[key]) !== JSON.stringify(config[key]));
+  if (pending.length > 0) console.warn(`Changes to ${pending.join(', ')} take effect after a restart`);
+  config = { ...next, ...Object.fromEntries(RESTART_ONLY_OPTIONS.map(key => [key, config[key]])) };
+
+  clearDisabledCollectors();
+  scheduleConfiguredTasks();
+  ensureAdminPassword();
+  if (config.tls.cert) {
+    try {
+      /** @type {https.Server} */ (server).setSecureContext(readTlsFiles());
+    } catch (e) {
+      console.error("Error reloading TLS certificate:", e);
+    }
+  }
+  console.log(`Configuration reloaded${configFile ? ` from ${configFile}` : ''}`);
+}
+process.on('SIGHUP', reloadConfig);
+
+// `node index.js --set-password` (with ADMIN_PASSWORD in the environment or adminPassword
+// in the config) only updates the admin password, e.g. from install.sh, without starting the server
+if (process.argv.includes('--set-password')) {
+  if (!config.adminPassword) {
+    console.error('ADMIN_PASSWORD environment variable is required');
+    process.exit(1);
+  }
+  setAdminPassword(config.adminPassword);
+  console.log('Admin password updated');
+  process.exit(0);
 }
 
+ensureAdminPassword();
+if (ROLE === 'hub') startHub();
+if (ROLE === 'agent') startAgent();
+resumeUptimeTracking();
 startBackgroundTasks();
 
 io.on('connection', (socket) => {
   console.log('Client connected');
-  socket.emit('metrics', latestMetrics);
+  socket.emit('hello', { protocolVersion: PROTOCOL_VERSION, role: ROLE });
+  handleSubscriptions(socket, () => latestMetrics, liveSamples);
+  // Skip the empty placeholder before the first collection, it does not match the schema
+  if (hasMetrics(latestMetrics)) socket.emit('metrics', latestMetrics);
   
   socket.on('disconnect', () => {
     console.log('Client disconnected');
   });
 });
 
-const PORT = process.env.PORT || 3001;
-server.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
+// Without a host Node listens on :: (and 0.0.0.0 through it), or 0.0.0.0 when IPv6 is unavailable
+server.listen(...(config.host ? [config.port, config.host] : [config.port]), () => {
+  const { address } = /** @type {import('net').AddressInfo} */ (server.address());
+  const host = address.includes(':') ? `[${address}]` : address;
+  console.log(`Server running on ${config.tls.cert ? 'https' : 'http'}://${host}:${config.port}`);
 });
 
 // Global error handling to prevent process crash
@@ -0,0 +1,119 @@
+const nodemailer = require('nodemailer');
+
+const DEFAULT_TEMPLATE = '[{{state}}] {{server}} - {{rule}}: {{message}}';
+
+// Replace {{var}} placeholders; unknown variables are left untouched
+function renderTemplate(template, vars) {
+  return (template || DEFAULT_TEMPLATE).replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) =>
+    vars[key] !== undefined && vars[key] !== null ? String(vars[key]) : match
+  );
+}
+
+// Extra webhook headers, given as an object or a JSON object string
+function parseHeaders(headers) {
+  if (!headers) return {};
+  const parsed = typeof headers === 'string' ? JSON.parse(headers) : headers;
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Headers must be a JSON object');
+  }
+  return parsed;
+}
+
+async function postJson(url, body, headers = {}) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(10000)
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+}
+
+// Each notifier validates its config and delivers a rendered message.
+// `payload` carries the raw alert fields for channels that want structured data.
+const NOTIFIERS = {
+  webhook: {
+    validate(config) {
+      if (!config.url) return 'Webhook URL is required';
+      try {
+        parseHeaders(config.headers);
+      } catch {
+        return 'Headers must be a JSON object';
+      }
+      return null;
+    },
+    async send(config, text, payload) {
+      await postJson(config.url, { text, ...payload }, parseHeaders(config.headers));
+    }
+  },
+
+  smtp: {
+    validate(config) {
+      if (!config.host) return 'SMTP host is required';
+      if (!config.to) return 'Recipient address is required';
+      return null;
+    },
+    async send(config, text, payload) {
+      const port = parseInt(config.port, 10) || 587;
+      const transport = nodemailer.createTransport({
+        host: config.host,
+        port,
+        secure: config.secure === true || config.secure === 'true' || port === 465,
+        auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+        connectionTimeout: 10000
+      });
+      await transport.sendMail({
+        from: config.from || config.user,
+        to: config.to,
+        subject: `[VPS Monitor] ${payload.rule || '通知'}`,
+        text
+      });
+    }
+  },
+
+  // Telegram-compatible bot API; apiBase can point at a self-hosted or mock endpoint
+  telegram: {
+    validate(config) {
+      if (!config.botToken) return 'Bot token is required';
+      if (!config.chatId) return 'Chat ID is required';
+      return null;
+    },
+    async send(config, text) {
+      const apiBase = (config.apiBase || 'https://api.telegram.org').replace(/\/+$/, '');
+      await postJson(`${apiBase}/bot${config.botToken}/sendMessage`, {
+        chat_id: config.chatId,
+        text
+      });
+    }
+  }
+};
+
+// Deliver with exponential backoff (1s, 2s, 4s ...)
+async function sendWithRetry(type, config, text, payload, retries = 3) {
+  const notifier = NOTIFIERS[type];
+  if (!notifier) throw new Error(`Unknown notifier type: ${type}`);
+
+  let lastError;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    try {
+      await notifier.send(config, text, payload);
+      return;
+    } catch (e) {
+      lastError = e;
+      if (attempt < retries) {
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** attempt));
+      }
+    }
+  }
+  throw lastError;
+}
+
+module.exports = {
+  NOTIFIERS,
+  DEFAULT_TEMPLATE,
+  renderTemplate,
+  sendWithRetry
+};
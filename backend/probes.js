@@ -0,0 +1,117 @@
+const net = require('net');
+const dns = require('dns');
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DNS_RECORD_TYPES = ['A', 'AAAA', 'CNAME', 'MX', 'NS', 'TXT'];
+
+function formatRecord(record) {
+  if (typeof record === 'string') return record;
+  if (Array.isArray(record)) return record.join('');
+  if (record.exchange) return `${record.priority} ${record.exchange}`;
+  return JSON.stringify(record);
+}
+
+// Each probe validates its config and performs one check. `run` resolves with a short
+// description on success and throws when the check fails.
+const PROBES = {
+  http: {
+    validate(config) {
+      if (!config.url) return 'URL is required';
+      try {
+        const { protocol } = new URL(config.url);
+        if (protocol !== 'http:' && protocol !== 'https:') return 'URL must use http or https';
+      } catch {
+        return 'Invalid URL';
+      }
+      if (config.expectedStatus && !/^\d{3}$/.test(String(config.expectedStatus))) return 'Expected status must be a 3-digit HTTP status';
+      return null;
+    },
+    async run(config, timeout) {
+      const expected = config.expectedStatus ? Number(config.expectedStatus) : null;
+      // Redirects are followed unless the redirect itself is the expected response
+      const response = await fetch(config.url, {
+        headers: { 'User-Agent': 'VPS-Monitor-Probe' },
+        redirect: expected >= 300 && expected < 400 ? 'manual' : 'follow',
+        signal: AbortSignal.timeout(timeout)
+      });
+      if (expected ? response.status !== expected : !response.ok) {
+        await response.body?.cancel();
+        throw new Error(`HTTP ${response.status}${expected ? ` (expected ${expected})` : ''}`);
+      }
+      if (config.keyword) {
+        const body = await response.text();
+        if (!body.includes(config.keyword)) throw new Error(`HTTP ${response.status}, keyword not found: ${config.keyword}`);
+      } else {
+        await response.body?.cancel();
+      }
+      return `HTTP ${response.status}`;
+    }
+  },
+
+  tcp: {
+    validate(config) {
+      if (!config.host) return 'Host is required';
+      const port = Number(config.port);
+      if (!Number.isInteger(port) || port < 1 || port > 65535) return 'Port must be between 1 and 65535';
+      return null;
+    },
+    run(config, timeout) {
+      return new Promise((resolve, reject) => {
+        const socket = net.connect({ host: config.host, port: Number(config.port) });
+        socket.setTimeout(timeout);
+        socket.once('connect', () => {
+          socket.destroy();
+          resolve(`Connected to ${config.host}:${config.port}`);
+        });
+        socket.once('timeout', () => {
+          socket.destroy();
+          reject(new Error('Connection timed out'));
+        });
+        socket.once('error', (err) => {
+          socket.destroy();
+          reject(err);
+        });
+      });
+    }
+  },
+
+  // Resolves through the system resolver, or `server` when given
+  dns: {
+    validate(config) {
+      if (!config.hostname) return 'Hostname is required';
+      if (config.recordType && !DNS_RECORD_TYPES.includes(config.recordType)) return `Unknown record type: ${config.recordType}`;
+      return null;
+    },
+    async run(config, timeout) {
+      const resolver = new dns.promises.Resolver({ timeout, tries: 1 });
+      if (config.server) resolver.setServers([config.server]);
+      const records = (await resolver.resolve(config.hostname, config.recordType || 'A')).map(formatRecord);
+      if (records.length === 0) throw new Error('No records returned');
+      if (config.expected && !records.includes(config.expected)) {
+        throw new Error(`Expected ${config.expected}, got ${records.join(', ')}`);
+      }
+      return records.join(', ');
+    }
+  }
+};
+
+// Run a probe and time it; failures are reported in the result rather than thrown
+async function runProbe(type, config, timeout = DEFAULT_TIMEOUT_MS) {
+  const probe = PROBES[type];
+  if (!probe) throw new Error(`Unknown probe type: ${type}`);
+
+  const start = performance.now();
+  try {
+    const message = await probe.run(config, timeout);
+    return { success: true, latency: performance.now() - start, message };
+  } catch (e) {
+    const message = e.name === 'TimeoutError' ? 'Request timed out' : e.message;
+    return { success: false, latency: performance.now() - start, message };
+  }
+}
+
+module.exports = {
+  PROBES,
+  DNS_RECORD_TYPES,
+  runProbe
+};
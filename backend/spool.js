@@ -0,0 +1,85 @@
+const fs = require('fs');
+
+// Reads the queued entries, one JSON document per line. A line cut short by a crash
+// while appending is skipped and reported through `damaged`.
+function load(filePath) {
+  let text;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (e) {
+    if (e.code === 'ENOENT') return { entries: [], damaged: false };
+    throw e;
+  }
+  let damaged = false;
+  const entries = text.split('\n').filter(Boolean).flatMap(line => {
+    try {
+      return [JSON.parse(line)];
+    } catch {
+      damaged = true;
+      return [];
+    }
+  });
+  return { entries, damaged };
+}
+
+// On-disk FIFO queue. New entries are appended to the file; once entries at the
+// front are handled the file is rewritten. When full, the oldest entries are dropped.
+function createSpool(filePath, maxEntries) {
+  const { entries, damaged } = load(filePath);
+
+  const rewrite = (list = entries) => {
+    if (list.length === 0) {
+      fs.rmSync(filePath, { force: true });
+      return;
+    }
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, list.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+    fs.renameSync(tmpPath, filePath);
+  };
+
+  // Appending after a partial line would corrupt the next entry too
+  if (damaged || entries.length > maxEntries) {
+    entries.splice(0, Math.max(entries.length - maxEntries, 0));
+    rewrite();
+  }
+
+  return {
+    get size() {
+      return entries.length;
+    },
+    // The entry is only queued once it is on disk. Write failures are logged and
+    // reported by returning false, so callers on the sampling path need not catch.
+    push(entry) {
+      try {
+        if (entries.length >= maxEntries) {
+          const kept = [...entries.slice(entries.length - maxEntries + 1), entry];
+          rewrite(kept);
+          entries.splice(0, entries.length, ...kept);
+        } else {
+          fs.appendFileSync(filePath, `${JSON.stringify(entry)}\n`);
+          entries.push(entry);
+        }
+        return true;
+      } catch (e) {
+        console.error(`Error writing to spool ${filePath}:`, e);
+        return false;
+      }
+    },
+    // The oldest `count` entries, without removing them
+    peek(count) {
+      return entries.slice(0, count);
+    },
+    // Remove a batch returned by peek once it is handled. Entries are matched by
+    // identity, as a push may have trimmed some of them while the batch was in flight.
+    drop(batch) {
+      const index = entries.indexOf(batch[batch.length - 1]);
+      if (index === -1) return;
+      rewrite(entries.slice(index + 1));
+      entries.splice(0, index + 1);
+    }
+  };
+}
+
+module.exports = {
+  createSpool
+};
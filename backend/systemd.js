@@ -0,0 +1,97 @@
+const { execFile } = require('child_process');
+const os = require('os');
+
+const COMMAND_TIMEOUT_MS = 5000;
+const UNIT_PROPERTIES = ['Id', 'Description', 'LoadState', 'ActiveState', 'SubState', 'NRestarts', 'StateChangeTimestampMonotonic'];
+// Unit names are passed as arguments (never through a shell), but still reject
+// anything that could be read as an option or glob
+const UNIT_NAME_PATTERN = /^[\w@:.\\-]+$/;
+
+function isValidUnitName(name) {
+  return typeof name === 'string' && UNIT_NAME_PATTERN.test(name) && !name.startsWith('-');
+}
+
+// Bare names like "nginx" refer to the service unit
+function normalizeUnitName(name) {
+  return /\.[a-z]+$/.test(name) ? name : `${name}.service`;
+}
+
+function run(command, args) {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: COMMAND_TIMEOUT_MS, maxBuffer: 1024 * 1024 }, (err, stdout, stderr) => {
+      if (err) return reject(new Error((stderr || err.message).trim()));
+      resolve(stdout);
+    });
+  });
+}
+
+// `systemctl show` prints one KEY=value block per unit, separated by blank lines
+function parseShowOutput(stdout) {
+  return stdout.trim().split(/\n\s*\n/).filter(Boolean).map(block => {
+    const props = {};
+    block.split('\n').forEach(line => {
+      const index = line.indexOf('=');
+      if (index > 0) props[line.slice(0, index)] = line.slice(index + 1);
+    });
+    return props;
+  });
+}
+
+// State of each unit. The last state change is reported by systemd on the monotonic
+// clock, so it is converted to wall time using the system uptime.
+async function getUnitStatus(units) {
+  if (units.length === 0) return [];
+  const stdout = await run('systemctl', ['show', `--property=${UNIT_PROPERTIES.join(',')}`, '--', ...units]);
+  const bootTime = Date.now() - os.uptime() * 1000;
+  return parseShowOutput(stdout).map(props => {
+    const monotonic = Number(props.StateChangeTimestampMonotonic) || 0;
+    return {
+      unit: props.Id,
+      description: props.Description || '',
+      loaded: props.LoadState === 'loaded',
+      state: props.ActiveState,
+      subState: props.SubState,
+      restarts: props.NRestarts !== undefined && props.NRestarts !== '' ? Number(props.NRestarts) : null,
+      since: monotonic > 0 ? new Date(bootTime + monotonic / 1000).toISOString() : null
+    };
+  });
+}
+
+// Returns `record(nodeId, services, timestamp)`, which writes a service_events row when a
+// unit enters `failed` or leaves it again. The last seen state per node and unit is kept
+// between samples.
+function createServiceEventRecorder(db) {
+  const states = new Map();
+  const lastEvent = db.prepare(`
+    SELECT state FROM service_events WHERE node_id = ? AND unit = ? ORDER BY timestamp DESC, id DESC LIMIT 1
+  `);
+  const insertEvent = db.prepare(`
+    INSERT INTO service_events (node_id, timestamp, unit, state, previous_state) VALUES (?, ?, ?, ?, ?)
+  `);
+  return (nodeId, services, timestamp) => {
+    for (const service of services || []) {
+      const key = `${nodeId}\n${service.unit}`;
+      // After a restart the last recorded event stands in for the unknown previous state
+      const previous = states.has(key) ? states.get(key) : lastEvent.get(nodeId, service.unit)?.state ?? null;
+      if (service.state === 'failed' ? previous !== 'failed' : previous === 'failed') {
+        insertEvent.run(nodeId, timestamp, service.unit, service.state, previous);
+      }
+      states.set(key, service.state);
+    }
+  };
+}
+
+// Most recent journal lines of a unit, oldest first
+async function getJournal(unit, lines) {
+  const stdout = await run('journalctl', ['--no-pager', '--output=short-iso', '-n', String(lines), '-u', unit]);
+  return stdout.split('\n').filter(line => line && !line.startsWith('-- '));
+}
+
+module.exports = {
+  isValidUnitName,
+  normalizeUnitName,
+  parseShowOutput,
+  getUnitStatus,
+  createServiceEventRecorder,
+  getJournal
+};
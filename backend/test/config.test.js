@@ -0,0 +1,148 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { execFileSync } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const YAML = require('yaml');
+const { DEFAULT_CONFIG, loadConfig } = require('../config');
+
+// Temporary backend directory holding `files`, removed after the test
+function tempDir(t, files = {}) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  for (const [name, content] of Object.entries(files)) fs.writeFileSync(path.join(dir, name), content);
+  return dir;
+}
+
+// Every problem reported by loadConfig, or [] when the configuration is valid
+function configErrors(options) {
+  try {
+    loadConfig(options);
+    return [];
+  } catch (e) {
+    return e.message.split('\n').slice(1).map(line => line.replace(/^\s+- /, ''));
+  }
+}
+
+test('uses the defaults without a config file', (t) => {
+  const baseDir = tempDir(t);
+  const { config, file } = loadConfig({ argv: [], env: {}, baseDir });
+  assert.equal(file, null);
+  assert.deepEqual(config, { ...DEFAULT_CONFIG, dbPath: path.join(baseDir, 'history.db') });
+});
+
+test('the file overrides defaults, the environment the file, and flags the environment', (t) => {
+  const baseDir = tempDir(t, {
+    'config.yaml': 'port: 4000\nhost: 127.0.0.1\nintervals:\n  disk: 30\nretention:\n  raw: 14\n'
+  });
+
+  const fromFile = loadConfig({ argv: [], env: {}, baseDir }).config;
+  assert.equal(fromFile.port, 4000);
+  assert.equal(fromFile.host, '127.0.0.1');
+  assert.equal(fromFile.intervals.disk, 30);
+  // Objects merge key by key
+  assert.equal(fromFile.intervals.history, DEFAULT_CONFIG.intervals.history);
+  assert.equal(fromFile.retention.raw, 14);
+
+  const env = { PORT: '5000', INTERVAL_DISK: '20', COLLECTORS: 'network, disk' };
+  const fromEnv = loadConfig({ argv: [], env, baseDir }).config;
+  assert.equal(fromEnv.port, 5000);
+  assert.equal(fromEnv.intervals.disk, 20);
+  assert.deepEqual(fromEnv.collectors, ['network', 'disk']);
+  assert.equal(fromEnv.retention.raw, 14);
+
+  const fromFlags = loadConfig({ argv: ['--port', '6000', '--interval-disk=15'], env, baseDir }).config;
+  assert.equal(fromFlags.port, 6000);
+  assert.equal(fromFlags.intervals.disk, 15);
+  assert.deepEqual(fromFlags.collectors, ['network', 'disk']);
+});
+
+test('reads the file named by --config before CONFIG_FILE', (t) => {
+  const baseDir = tempDir(t, { 'a.json': '{"port": 4001}', 'b.yml': 'port: 4002\n' });
+  assert.equal(loadConfig({ argv: [], env: { CONFIG_FILE: 'b.yml' }, baseDir }).config.port, 4002);
+  const { config, file } = loadConfig({ argv: ['--config', 'a.json'], env: { CONFIG_FILE: 'b.yml' }, baseDir });
+  assert.equal(config.port, 4001);
+  assert.equal(file, path.join(baseDir, 'a.json'));
+});
+
+test('resolves relative paths against the backend directory', (t) => {
+  const baseDir = tempDir(t, { 'cert.pem': '', 'key.pem': '' });
+  const { config } = loadConfig({ argv: ['--tls-cert', 'cert.pem', '--tls-key', 'key.pem', '--db-path', 'data/h.db'], env: {}, baseDir });
+  assert.equal(config.tls.cert, path.join(baseDir, 'cert.pem'));
+  assert.equal(config.tls.key, path.join(baseDir, 'key.pem'));
+  assert.equal(config.dbPath, path.join(baseDir, 'data/h.db'));
+});
+
+test('reports every invalid option', (t) => {
+  const baseDir = tempDir(t, { 'cert.pem': '' });
+  assert.deepEqual(configErrors({ argv: ['--port', '70000'], env: {}, baseDir }), ['port: expected an integer between 1 and 65535']);
+  assert.deepEqual(configErrors({ argv: [], env: { PORT: 'abc' }, baseDir }), ['port: expected an integer between 1 and 65535']);
+  assert.deepEqual(configErrors({ argv: ['--tls-cert', 'cert.pem'], env: {}, baseDir }), ['tls: cert and key must be set together']);
+  assert.deepEqual(configErrors({ argv: ['--tls-cert', 'cert.pem', '--tls-key', 'missing.pem'], env: {}, baseDir }), [
+    `tls.key: cannot read ${path.join(baseDir, 'missing.pem')}`
+  ]);
+  assert.deepEqual(configErrors({ argv: ['--interval-history', '120'], env: {}, baseDir }), ['intervals.history: at most 60 seconds']);
+  assert.deepEqual(configErrors({ argv: ['--interval-history', '5', '--collectors', 'disk,gpu'], env: {}, baseDir }), [
+    'intervals.history: expected a number of seconds, at least 10',
+    'collectors: unknown gpu (available: network, diskIO, disk, sensors, processes, containers, services)'
+  ]);
+});
+
+test('reports unknown options and malformed files', (t) => {
+  const baseDir = tempDir(t, { 'config.yaml': 'prot: 3001\nintervals: 5\n', 'bad.json': '{' });
+  assert.deepEqual(configErrors({ argv: ['--verbose'], env: {}, baseDir }), [
+    'unknown option: --verbose',
+    'unknown option: prot',
+    'intervals: expected an object'
+  ]);
+  const [error] = configErrors({ argv: ['--config', 'bad.json'], env: {}, baseDir });
+  assert.match(error, /bad\.json: /);
+});
+
+test('agents need a hub address and token', (t) => {
+  const baseDir = tempDir(t);
+  assert.deepEqual(configErrors({ argv: [], env: { ROLE: 'agent' }, baseDir }), [
+    'hubUrl: required when role is agent',
+    'agentToken: required when role is agent'
+  ]);
+  assert.deepEqual(configErrors({ argv: [], env: { ROLE: 'agent', HUB_URL: 'hub:3001', AGENT_TOKEN: 'abc' }, baseDir }), [
+    'hubUrl: expected an http or https URL'
+  ]);
+  assert.deepEqual(configErrors({ argv: ['--role', 'master'], env: {}, baseDir }), ['role: expected one of standalone, hub, agent']);
+  assert.deepEqual(configErrors({ argv: [], env: { SYSTEMD_UNITS: 'nginx,-x' }, baseDir }), ['systemdUnits: invalid unit names -x']);
+
+  const { config } = loadConfig({ argv: [], env: { ROLE: 'agent', HUB_URL: 'http://hub:3001', AGENT_TOKEN: 'abc', SYSTEMD_UNITS: 'nginx, mysql' }, baseDir });
+  assert.equal(config.role, 'agent');
+  assert.equal(config.hubUrl, 'http://hub:3001');
+  assert.deepEqual(config.systemdUnits, ['nginx', 'mysql']);
+});
+
+test('--check-config prints the resolved configuration without secrets', (t) => {
+  const baseDir = tempDir(t, { 'test.yaml': 'port: 4100\nadminPassword: hunter2\n' });
+  const output = execFileSync(process.execPath, [path.join(__dirname, '..', 'index.js'), '--check-config', '--interval-disk', '30'], {
+    env: { PATH: process.env.PATH, CONFIG_FILE: path.join(baseDir, 'test.yaml') },
+    encoding: 'utf8',
+    timeout: 30000
+  });
+
+  const [header, ...lines] = output.split('\n');
+  assert.equal(header, `# ${path.join(baseDir, 'test.yaml')}`);
+  const printed = YAML.parse(lines.join('\n'));
+  assert.equal(printed.port, 4100);
+  assert.equal(printed.intervals.disk, 30);
+  assert.equal(printed.adminPassword, '********');
+  assert.doesNotMatch(output, /hunter2/);
+});
+
+test('--check-config exits with the errors of an invalid configuration', () => {
+  assert.throws(
+    () => execFileSync(process.execPath, [path.join(__dirname, '..', 'index.js'), '--check-config', '--port', '0'], {
+      env: { PATH: process.env.PATH },
+      encoding: 'utf8',
+      stdio: 'pipe',
+      timeout: 30000
+    }),
+    (e) => e.status === 1 && /port: expected an integer between 1 and 65535/.test(e.stderr)
+  );
+});
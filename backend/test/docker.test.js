@@ -0,0 +1,104 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const http = require('http');
+const os = require('os');
+const path = require('path');
+const { getContainers } = require('../docker');
+
+const WEB_ID = 'a1b2c3d4e5f6a1b2c3d4e5f6';
+const DB_ID = 'f6e5d4c3b2a1f6e5d4c3b2a1';
+
+const ROUTES = {
+  '/containers/json?all=1': [
+    { Id: WEB_ID, Names: ['/web'], Image: 'nginx:latest', State: 'running', Status: 'Up 2 hours' },
+    { Id: DB_ID, Names: ['/db'], Image: 'postgres:16', State: 'exited', Status: 'Exited (0) 1 hour ago' }
+  ],
+  [`/containers/${WEB_ID}/json`]: { RestartCount: 2 },
+  [`/containers/${DB_ID}/json`]: { RestartCount: 0 },
+  [`/containers/${WEB_ID}/stats?stream=false`]: {
+    cpu_stats: { cpu_usage: { total_usage: 3000 }, system_cpu_usage: 20000, online_cpus: 2 },
+    precpu_stats: { cpu_usage: { total_usage: 1000 }, system_cpu_usage: 10000 },
+    memory_stats: { usage: 500, limit: 4000, stats: { inactive_file: 100 } },
+    networks: { eth0: { rx_bytes: 10, tx_bytes: 20 }, eth1: { rx_bytes: 5, tx_bytes: 1 } }
+  }
+};
+
+// Docker Engine API stand-in on a unix socket, answering from `routes`
+async function startDockerSocket(routes) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'docker-test-'));
+  const socketPath = path.join(dir, 'docker.sock');
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req.url);
+    const body = routes[req.url];
+    res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body ?? { message: 'not found' }));
+  });
+  await new Promise(resolve => server.listen(socketPath, resolve));
+  return {
+    socketPath,
+    requests,
+    close: () => new Promise(resolve => server.close(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+      resolve();
+    }))
+  };
+}
+
+test('lists containers with stats for the running ones', async (t) => {
+  const docker = await startDockerSocket(ROUTES);
+  t.after(docker.close);
+
+  const [web, db] = await getContainers(docker.socketPath);
+
+  assert.deepEqual(web, {
+    id: 'a1b2c3d4e5f6',
+    name: 'web',
+    image: 'nginx:latest',
+    state: 'running',
+    status: 'Up 2 hours',
+    restartCount: 2,
+    cpu: 40,
+    mem: 400,
+    memLimit: 4000,
+    rxBytes: 15,
+    txBytes: 21
+  });
+  assert.deepEqual(db, {
+    id: 'f6e5d4c3b2a1',
+    name: 'db',
+    image: 'postgres:16',
+    state: 'exited',
+    status: 'Exited (0) 1 hour ago',
+    restartCount: 0,
+    cpu: null,
+    mem: null,
+    memLimit: null,
+    rxBytes: null,
+    txBytes: null
+  });
+  assert.ok(!docker.requests.includes(`/containers/${DB_ID}/stats?stream=false`));
+});
+
+test('keeps a container whose inspect and stats requests fail', async (t) => {
+  const docker = await startDockerSocket({ '/containers/json?all=1': ROUTES['/containers/json?all=1'].slice(0, 1) });
+  t.after(docker.close);
+
+  const [web] = await getContainers(docker.socketPath);
+  assert.equal(web.name, 'web');
+  assert.equal(web.restartCount, 0);
+  assert.equal(web.cpu, null);
+});
+
+test('rejects when the daemon is not running', async () => {
+  const socketPath = path.join(os.tmpdir(), `missing-docker-${process.pid}.sock`);
+  await assert.rejects(getContainers(socketPath), { code: 'ENOENT' });
+});
+
+test('rejects when the daemon returns an error', async (t) => {
+  const docker = await startDockerSocket({});
+  t.after(docker.close);
+
+  await assert.rejects(getContainers(docker.socketPath), /Docker API \/containers\/json\?all=1: HTTP 404/);
+});
@@ -0,0 +1,33 @@
+const http = require('http');
+
+// Local HTTP server recording every request; `respond(req, body)` returns
+// [status, body, headers?], or null to leave the request unanswered
+async function startHttpServer(respond = () => [200, 'ok']) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+      const response = respond(req, body);
+      if (!response) return;
+      const [status, text, headers = {}] = response;
+      res.writeHead(status, { 'Content-Type': 'text/plain', ...headers });
+      res.end(text);
+    });
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    port: server.address().port,
+    requests,
+    close: () => new Promise(resolve => {
+      server.close(resolve);
+      server.closeAllConnections();
+    })
+  };
+}
+
+module.exports = {
+  startHttpServer
+};
@@ -0,0 +1,159 @@
+const { test, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const net = require('net');
+const { NOTIFIERS, renderTemplate, sendWithRetry } = require('../notifiers');
+const { startHttpServer } = require('./helpers');
+
+const payload = { rule: 'CPU 过高', state: 'firing', value: 95 };
+
+// Minimal SMTP server that accepts every message and records the DATA section
+async function startSmtpServer() {
+  const messages = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let data = null;
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk;
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (data !== null) {
+          if (line === '.') {
+            messages.push(data);
+            data = null;
+            socket.write('250 OK\r\n');
+          } else {
+            data += `${line}\n`;
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250 localhost\r\n');
+        } else if (/^DATA/i.test(line)) {
+          data = '';
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    port: server.address().port,
+    messages,
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+}
+
+test('renderTemplate fills known variables and keeps unknown ones', () => {
+  assert.equal(renderTemplate('{{rule}} = {{ value }} {{other}}', { rule: 'cpu', value: 1 }), 'cpu = 1 {{other}}');
+});
+
+test('webhook posts the text, alert fields and custom headers', async (t) => {
+  const server = await startHttpServer();
+  t.after(server.close);
+
+  await NOTIFIERS.webhook.send({ url: `${server.url}/hook`, headers: '{"X-Token":"abc"}' }, 'hello', payload);
+
+  assert.equal(server.requests.length, 1);
+  const [request] = server.requests;
+  assert.equal(request.method, 'POST');
+  assert.equal(request.url, '/hook');
+  assert.equal(request.headers['x-token'], 'abc');
+  assert.deepEqual(JSON.parse(request.body), { text: 'hello', ...payload });
+});
+
+test('webhook fails on a non-2xx response', async (t) => {
+  const server = await startHttpServer(() => [500, 'boom']);
+  t.after(server.close);
+
+  await assert.rejects(NOTIFIERS.webhook.send({ url: server.url }, 'hello', payload), /HTTP 500: boom/);
+});
+
+test('webhook validation rejects headers that are not a JSON object', () => {
+  assert.equal(NOTIFIERS.webhook.validate({}), 'Webhook URL is required');
+  assert.equal(NOTIFIERS.webhook.validate({ url: 'http://x', headers: '{bad' }), 'Headers must be a JSON object');
+  assert.equal(NOTIFIERS.webhook.validate({ url: 'http://x', headers: '[1]' }), 'Headers must be a JSON object');
+  assert.equal(NOTIFIERS.webhook.validate({ url: 'http://x', headers: '{"A":"b"}' }), null);
+  assert.equal(NOTIFIERS.webhook.validate({ url: 'http://x' }), null);
+});
+
+test('smtp delivers the message to the configured server', async (t) => {
+  const server = await startSmtpServer();
+  t.after(server.close);
+
+  await NOTIFIERS.smtp.send(
+    { host: '127.0.0.1', port: server.port, from: 'monitor@example.com', to: 'admin@example.com' },
+    'disk almost full',
+    payload
+  );
+
+  assert.equal(server.messages.length, 1);
+  assert.match(server.messages[0], /To: admin@example\.com/);
+  assert.match(server.messages[0], /disk almost full/);
+});
+
+test('smtp validation requires host and recipient', () => {
+  assert.equal(NOTIFIERS.smtp.validate({ to: 'a@b.c' }), 'SMTP host is required');
+  assert.equal(NOTIFIERS.smtp.validate({ host: 'mail' }), 'Recipient address is required');
+  assert.equal(NOTIFIERS.smtp.validate({ host: 'mail', to: 'a@b.c' }), null);
+});
+
+test('telegram calls sendMessage on the configured API base', async (t) => {
+  const server = await startHttpServer(() => [200, '{"ok":true}']);
+  t.after(server.close);
+
+  await NOTIFIERS.telegram.send({ apiBase: `${server.url}/`, botToken: '123:abc', chatId: '42' }, 'hello');
+
+  assert.equal(server.requests.length, 1);
+  assert.equal(server.requests[0].url, '/bot123:abc/sendMessage');
+  assert.deepEqual(JSON.parse(server.requests[0].body), { chat_id: '42', text: 'hello' });
+});
+
+test('sendWithRetry retries with exponential backoff until it succeeds', async (t) => {
+  const delays = [];
+  mock.method(global, 'setTimeout', (callback, ms) => {
+    delays.push(ms);
+    callback();
+  });
+  t.after(() => mock.restoreAll());
+
+  let attempts = 0;
+  NOTIFIERS.flaky = {
+    async send() {
+      attempts++;
+      if (attempts < 3) throw new Error(`attempt ${attempts} failed`);
+    }
+  };
+  t.after(() => delete NOTIFIERS.flaky);
+
+  await sendWithRetry('flaky', {}, 'text', payload);
+  assert.equal(attempts, 3);
+  assert.deepEqual(delays, [1000, 2000]);
+});
+
+test('sendWithRetry gives up after the last retry with the last error', async (t) => {
+  const delays = [];
+  mock.method(global, 'setTimeout', (callback, ms) => {
+    delays.push(ms);
+    callback();
+  });
+  t.after(() => mock.restoreAll());
+
+  let attempts = 0;
+  NOTIFIERS.broken = {
+    async send() {
+      attempts++;
+      throw new Error(`attempt ${attempts} failed`);
+    }
+  };
+  t.after(() => delete NOTIFIERS.broken);
+
+  await assert.rejects(sendWithRetry('broken', {}, 'text', payload, 3), /attempt 4 failed/);
+  assert.equal(attempts, 4);
+  assert.deepEqual(delays, [1000, 2000, 4000]);
+  await assert.rejects(sendWithRetry('missing', {}, 'text', payload), /Unknown notifier type: missing/);
+});
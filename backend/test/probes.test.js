@@ -0,0 +1,119 @@
+const { test, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const net = require('net');
+const { PROBES, runProbe } = require('../probes');
+const { startHttpServer } = require('./helpers');
+
+async function startTcpServer() {
+  const server = net.createServer(socket => socket.end());
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    port: server.address().port,
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+}
+
+// A port that was just free; nothing listens on it
+async function closedPort() {
+  const server = await startTcpServer();
+  await server.close();
+  return server.port;
+}
+
+test('http probe is up on a 2xx response', async (t) => {
+  const server = await startHttpServer(() => [200, 'all good']);
+  t.after(server.close);
+
+  const result = await runProbe('http', { url: `${server.url}/health` });
+  assert.equal(result.success, true);
+  assert.equal(result.message, 'HTTP 200');
+  assert.equal(typeof result.latency, 'number');
+  assert.equal(server.requests[0].url, '/health');
+  assert.equal(server.requests[0].headers['user-agent'], 'VPS-Monitor-Probe');
+});
+
+test('http probe is down on an error status or a missing keyword', async (t) => {
+  const server = await startHttpServer(req => (req.url === '/broken' ? [503, 'down'] : [200, 'all good']));
+  t.after(server.close);
+
+  const status = await runProbe('http', { url: `${server.url}/broken` });
+  assert.equal(status.success, false);
+  assert.equal(status.message, 'HTTP 503');
+  const expected = await runProbe('http', { url: server.url, expectedStatus: '204' });
+  assert.equal(expected.success, false);
+  assert.equal(expected.message, 'HTTP 200 (expected 204)');
+  const keyword = await runProbe('http', { url: server.url, keyword: 'healthy' });
+  assert.equal(keyword.success, false);
+  assert.equal(keyword.message, 'HTTP 200, keyword not found: healthy');
+  assert.equal((await runProbe('http', { url: server.url, keyword: 'good' })).success, true);
+});
+
+test('http probe follows redirects unless a redirect status is expected', async (t) => {
+  const server = await startHttpServer(req => (req.url === '/old' ? [301, 'moved', { Location: '/new' }] : [200, 'new page']));
+  t.after(server.close);
+
+  const followed = await runProbe('http', { url: `${server.url}/old`, keyword: 'new page' });
+  assert.equal(followed.success, true);
+  assert.deepEqual(server.requests.map(r => r.url), ['/old', '/new']);
+
+  const redirect = await runProbe('http', { url: `${server.url}/old`, expectedStatus: '301' });
+  assert.equal(redirect.success, true);
+  assert.equal(redirect.message, 'HTTP 301');
+  assert.equal(server.requests.length, 3);
+
+  const wrongRedirect = await runProbe('http', { url: `${server.url}/old`, expectedStatus: '302' });
+  assert.equal(wrongRedirect.success, false);
+  assert.equal(wrongRedirect.message, 'HTTP 301 (expected 302)');
+});
+
+test('http probe is down when nothing listens', async () => {
+  const port = await closedPort();
+  const result = await runProbe('http', { url: `http://127.0.0.1:${port}` });
+  assert.equal(result.success, false);
+});
+
+test('http probe times out when the server does not answer', async (t) => {
+  const server = await startHttpServer(() => null);
+  t.after(server.close);
+
+  const result = await runProbe('http', { url: server.url }, 200);
+  assert.equal(result.success, false);
+  assert.equal(result.message, 'Request timed out');
+});
+
+test('tcp probe is up when the port accepts connections', async (t) => {
+  const server = await startTcpServer();
+  t.after(server.close);
+
+  const result = await runProbe('tcp', { host: '127.0.0.1', port: server.port });
+  assert.equal(result.success, true);
+  assert.equal(result.message, `Connected to 127.0.0.1:${server.port}`);
+});
+
+test('tcp probe is down when the port is closed', async () => {
+  const port = await closedPort();
+  const result = await runProbe('tcp', { host: '127.0.0.1', port });
+  assert.equal(result.success, false);
+  assert.match(result.message, /ECONNREFUSED/);
+});
+
+test('tcp probe times out when the connection never completes', async (t) => {
+  // A socket that is never connected stands in for a host dropping the SYN
+  mock.method(net, 'connect', () => new net.Socket());
+  t.after(() => mock.restoreAll());
+  // The socket timeout is unref'd and would not keep the test alive on its own
+  const keepAlive = setInterval(() => {}, 1000);
+  t.after(() => clearInterval(keepAlive));
+
+  const result = await runProbe('tcp', { host: '192.0.2.1', port: 80 }, 100);
+  assert.equal(result.success, false);
+  assert.equal(result.message, 'Connection timed out');
+});
+
+test('probe validation', async () => {
+  assert.equal(PROBES.http.validate({ url: 'ftp://x' }), 'URL must use http or https');
+  assert.equal(PROBES.http.validate({ url: 'http://x', expectedStatus: '20' }), 'Expected status must be a 3-digit HTTP status');
+  assert.equal(PROBES.tcp.validate({ host: 'x', port: 70000 }), 'Port must be between 1 and 65535');
+  assert.equal(PROBES.tcp.validate({ host: 'x', port: '22' }), null);
+  await assert.rejects(runProbe('ping', {}), /Unknown probe type: ping/);
+});
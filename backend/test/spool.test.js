@@ -0,0 +1,80 @@
+const { test, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createSpool } = require('../spool');
+
+function tempSpoolPath(t) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spool-test-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, 'spool.jsonl');
+}
+
+test('queued entries survive a reload in order', (t) => {
+  const filePath = tempSpoolPath(t);
+  const spool = createSpool(filePath, 10);
+  assert.equal(spool.push({ n: 1 }), true);
+  assert.equal(spool.push({ n: 2 }), true);
+  assert.equal(spool.push({ n: 3 }), true);
+  spool.drop(spool.peek(1));
+
+  const reloaded = createSpool(filePath, 10);
+  assert.deepEqual(reloaded.peek(10), [{ n: 2 }, { n: 3 }]);
+  reloaded.drop(reloaded.peek(2));
+  assert.equal(fs.existsSync(filePath), false);
+});
+
+test('drops the oldest entries when full', (t) => {
+  const filePath = tempSpoolPath(t);
+  const spool = createSpool(filePath, 2);
+  for (const n of [1, 2, 3]) spool.push({ n });
+
+  assert.deepEqual(spool.peek(10), [{ n: 2 }, { n: 3 }]);
+  assert.deepEqual(createSpool(filePath, 2).peek(10), [{ n: 2 }, { n: 3 }]);
+});
+
+test('dropping a batch keeps entries queued after it, even once trimmed', (t) => {
+  const filePath = tempSpoolPath(t);
+  const spool = createSpool(filePath, 3);
+  for (const n of [1, 2, 3]) spool.push({ n });
+
+  // Pushes while the batch is in flight trim its first entry
+  const batch = spool.peek(2);
+  spool.push({ n: 4 });
+  spool.drop(batch);
+  assert.deepEqual(spool.peek(10), [{ n: 3 }, { n: 4 }]);
+  assert.deepEqual(createSpool(filePath, 3).peek(10), [{ n: 3 }, { n: 4 }]);
+
+  // A batch trimmed away entirely leaves the queue as it is
+  const gone = spool.peek(1);
+  for (const n of [5, 6, 7]) spool.push({ n });
+  spool.drop(gone);
+  assert.deepEqual(spool.peek(10), [{ n: 5 }, { n: 6 }, { n: 7 }]);
+});
+
+test('skips a line cut short by a crash', (t) => {
+  const filePath = tempSpoolPath(t);
+  fs.writeFileSync(filePath, '{"n":1}\n{"n":');
+  const spool = createSpool(filePath, 10);
+  spool.push({ n: 2 });
+
+  assert.deepEqual(createSpool(filePath, 10).peek(10), [{ n: 1 }, { n: 2 }]);
+});
+
+test('an entry that cannot be written is not queued', (t) => {
+  const errors = mock.method(console, 'error', () => {});
+  t.after(() => mock.restoreAll());
+
+  // Appending, and rewriting once full
+  for (const maxEntries of [10, 1]) {
+    const filePath = tempSpoolPath(t);
+    const spool = createSpool(filePath, maxEntries);
+    spool.push({ n: 1 });
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+
+    assert.equal(spool.push({ n: 2 }), false);
+    assert.deepEqual(spool.peek(10), [{ n: 1 }]);
+  }
+  assert.equal(errors.mock.callCount(), 2);
+});
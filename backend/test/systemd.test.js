@@ -0,0 +1,114 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const Database = require('better-sqlite3');
+const systemd = require('../systemd');
+
+// `systemctl show --property=Id,Description,LoadState,ActiveState,SubState,NRestarts,StateChangeTimestampMonotonic -- nginx.service missing.service`
+const SHOW_OUTPUT = `Id=nginx.service
+Description=A high performance web server and a reverse proxy server
+LoadState=loaded
+ActiveState=active
+SubState=running
+NRestarts=2
+StateChangeTimestampMonotonic=12345678
+
+Id=missing.service
+Description=missing.service
+LoadState=not-found
+ActiveState=inactive
+SubState=dead
+NRestarts=0
+StateChangeTimestampMonotonic=0
+`;
+
+test('parseShowOutput splits units and keeps values containing "="', () => {
+  const units = systemd.parseShowOutput(`${SHOW_OUTPUT}\nId=env.service\nDescription=Runs with FOO=bar\n`);
+  assert.equal(units.length, 3);
+  assert.deepEqual(units[0], {
+    Id: 'nginx.service',
+    Description: 'A high performance web server and a reverse proxy server',
+    LoadState: 'loaded',
+    ActiveState: 'active',
+    SubState: 'running',
+    NRestarts: '2',
+    StateChangeTimestampMonotonic: '12345678'
+  });
+  assert.equal(units[1].LoadState, 'not-found');
+  assert.equal(units[2].Description, 'Runs with FOO=bar');
+  assert.deepEqual(systemd.parseShowOutput('\n'), []);
+});
+
+test('accepts unit names and rejects options, globs and shell syntax', () => {
+  for (const name of ['nginx', 'nginx.service', 'getty@tty1.service', 'docker.socket', 'dev-disk-by\\x2duuid.device']) {
+    assert.equal(systemd.isValidUnitName(name), true, name);
+  }
+  for (const name of ['', '-x', '--help', 'nginx*', 'ng?nx', 'nginx;reboot', '$(id)', '`id`', 'a b', '../etc/passwd', 'nginx\nreboot', null, 42]) {
+    assert.equal(systemd.isValidUnitName(name), false, String(name));
+  }
+});
+
+test('bare unit names refer to the service', () => {
+  assert.equal(systemd.normalizeUnitName('nginx'), 'nginx.service');
+  assert.equal(systemd.normalizeUnitName('getty@tty1'), 'getty@tty1.service');
+  assert.equal(systemd.normalizeUnitName('nginx.service'), 'nginx.service');
+  assert.equal(systemd.normalizeUnitName('docker.socket'), 'docker.socket');
+});
+
+function createDb() {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE service_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      node_id TEXT NOT NULL,
+      timestamp DATETIME,
+      unit TEXT NOT NULL,
+      state TEXT NOT NULL,
+      previous_state TEXT
+    );
+  `);
+  return db;
+}
+
+const events = (db) => db.prepare('SELECT node_id, timestamp, unit, state, previous_state FROM service_events ORDER BY id').all();
+
+test('records units entering and leaving failed', () => {
+  const db = createDb();
+  const record = systemd.createServiceEventRecorder(db);
+
+  record('local', [{ unit: 'nginx.service', state: 'active' }], '2026-01-01 00:00:00');
+  record('local', [{ unit: 'nginx.service', state: 'failed' }], '2026-01-01 00:01:00');
+  record('local', [{ unit: 'nginx.service', state: 'failed' }], '2026-01-01 00:02:00');
+  record('local', [{ unit: 'nginx.service', state: 'activating' }], '2026-01-01 00:03:00');
+  record('local', [{ unit: 'nginx.service', state: 'active' }], '2026-01-01 00:04:00');
+
+  assert.deepEqual(events(db), [
+    { node_id: 'local', timestamp: '2026-01-01 00:01:00', unit: 'nginx.service', state: 'failed', previous_state: 'active' },
+    { node_id: 'local', timestamp: '2026-01-01 00:03:00', unit: 'nginx.service', state: 'activating', previous_state: 'failed' }
+  ]);
+});
+
+test('tracks units per node', () => {
+  const db = createDb();
+  const record = systemd.createServiceEventRecorder(db);
+
+  record('local', [{ unit: 'nginx.service', state: 'failed' }], '2026-01-01 00:00:00');
+  record('agent', [{ unit: 'nginx.service', state: 'active' }], '2026-01-01 00:00:00');
+  record('agent', [{ unit: 'nginx.service', state: 'active' }], '2026-01-01 00:01:00');
+
+  assert.deepEqual(events(db).map(e => [e.node_id, e.state, e.previous_state]), [['local', 'failed', null]]);
+});
+
+test('continues from the last recorded event after a restart', () => {
+  const db = createDb();
+  systemd.createServiceEventRecorder(db)('local', [{ unit: 'nginx.service', state: 'failed' }], '2026-01-01 00:00:00');
+
+  // A new process does not know the previous state, only the stored events
+  const record = systemd.createServiceEventRecorder(db);
+  record('local', [{ unit: 'nginx.service', state: 'failed' }], '2026-01-01 00:01:00');
+  record('local', [{ unit: 'nginx.service', state: 'active' }], '2026-01-01 00:02:00');
+
+  assert.deepEqual(events(db).map(e => [e.timestamp, e.state, e.previous_state]), [
+    ['2026-01-01 00:00:00', 'failed', null],
+    ['2026-01-01 00:02:00', 'active', 'failed']
+  ]);
+});
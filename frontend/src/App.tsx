@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { 
   Cpu, 
@@ -14,7 +14,25 @@ import {
   X,
   RefreshCw,
   Sun,
-  Moon
+  Moon,
+  LayoutGrid,
+  Bell,
+  BellOff,
+  Send,
+  LogOut,
+  Lock,
+  Link as LinkIcon,
+  Search,
+  ListOrdered,
+  ChevronDown,
+  ChevronRight,
+  GripVertical,
+  Thermometer,
+  Gauge,
+  Download,
+  Globe,
+  Play,
+  AlertTriangle
 } from 'lucide-react';
 import {
   XAxis,
@@ -23,52 +41,389 @@ import {
   Tooltip,
   ResponsiveContainer,
   AreaChart,
-  Area
+  Area,
+  ReferenceArea,
+  type MouseHandlerDataParam
 } from 'recharts';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import {
+  validate,
+  applyMetricsDelta,
+  metricsSchema,
+  liveSamplesSchema,
+  alertEventSchema,
+  historyResponseSchema,
+  PROTOCOL_VERSION,
+  LEGACY_PROTOCOL_VERSION,
+  METRIC_GROUPS,
+  type ValidationResult,
+  type MetricGroup,
+  type MetricsUpdate,
+  type Metrics,
+  type LiveSample,
+  type ProcessInfo,
+  type ServiceEvent,
+  type AlertEvent,
+  type UptimeReport,
+  type HubNode,
+  type HistoryPoint,
+  type Hello,
+  type ServerToClientEvents,
+  type ClientToServerEvents
+} from '../../shared';
 
 function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-interface Metrics {
-  cpu: {
-    manufacturer: string;
-    brand: string;
-    speed: number;
-    cores: number;
-    load: number;
-  };
-  memory: {
-    total: number;
-    free: number;
-    used: number;
-    active: number;
-    percentage: number;
-  };
-  network: Array<{
-    iface: string;
-    rx_sec: number;
-    tx_sec: number;
-  }>;
-  disk: Array<{
-    fs: string;
-    type: string;
-    size: number;
-    used: number;
-    available: number;
-    use: number;
-  }>;
-  uptime: number;
+type DashboardSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// 总览卡片只需要这些指标
+const OVERVIEW_GROUPS: MetricGroup[] = ['cpu', 'memory', 'network', 'disk', 'uptime'];
+
+// 将 snapshot / delta 合并为完整的 Metrics 并校验；旧版后端只发送完整的 metrics
+function onMetricsStream(socket: DashboardSocket, handle: (result: ValidationResult<Metrics>) => void) {
+  let current: MetricsUpdate = {};
+  const emit = () => handle(validate(metricsSchema, current, 'metrics'));
+  socket.on('metrics', (payload) => {
+    current = payload;
+    emit();
+  });
+  socket.on('snapshot', (snapshot) => {
+    current = snapshot;
+    emit();
+  });
+  socket.on('delta', (delta) => {
+    current = applyMetricsDelta(current, delta);
+    emit();
+  });
+}
+
+// 每台服务器在本地保留的实时采样时长，与后端缓冲一致
+const LIVE_BUFFER_MS = 15 * 60 * 1000;
+const LIVE_WINDOWS = [1, 5, 15] as const;
+type LiveWindow = typeof LIVE_WINDOWS[number];
+
+const trimLiveSamples = (samples: LiveSample[]) => {
+  const cutoff = Date.now() - LIVE_BUFFER_MS;
+  const start = samples.findIndex(s => s.timestamp >= cutoff);
+  return start === -1 ? [] : samples.slice(start);
+};
+
+// 后端缓冲的采样使用服务器时钟：以最后一个采样对齐本地当前时间，再替换本地重叠的部分
+function mergeLiveSamples(buffer: LiveSample[], backlog: LiveSample[]) {
+  if (backlog.length === 0) return buffer;
+  const offset = Date.now() - backlog[backlog.length - 1].timestamp;
+  const aligned = backlog.map(s => ({ ...s, timestamp: s.timestamp + offset }));
+  return trimLiveSamples([...buffer.filter(s => s.timestamp < aligned[0].timestamp), ...aligned]);
+}
+
+type ProcessSortKey = 'pid' | 'name' | 'user' | 'cpu' | 'rss';
+
+type AlertMetric = 'cpu' | 'load' | 'steal' | 'mem' | 'disk' | 'iowait' | 'net_rx' | 'net_tx' | 'bandwidth' | 'probe_failed' | 'probe_latency';
+
+interface AlertRule {
+  id: number;
+  name: string;
+  metric: AlertMetric;
+  target: string | null;
+  operator: '>' | '<';
+  threshold: number;
+  duration: number;
+  hysteresis: number;
+  enabled: boolean;
+  state: 'ok' | 'pending' | 'firing';
+}
+
+const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  cpu: 'CPU 负载 (%)',
+  load: '1 分钟平均负载',
+  steal: 'CPU 窃取时间 (%)',
+  mem: '内存使用率 (%)',
+  disk: '磁盘使用率 (%)',
+  iowait: 'I/O 等待 (%)',
+  net_rx: '下载速率 (B/s)',
+  net_tx: '上传速率 (B/s)',
+  bandwidth: '预计月流量占配额 (%)',
+  probe_failed: '服务检查失败数',
+  probe_latency: '服务检查延迟 (ms)'
+};
+
+const EMPTY_RULE = {
+  name: '',
+  metric: 'cpu' as AlertMetric,
+  target: '',
+  operator: '>' as '>' | '<',
+  threshold: 90,
+  duration: 5,
+  hysteresis: 5
+};
+
+type BandwidthMode = 'both' | 'out' | 'in' | 'max';
+
+interface BandwidthUsage {
+  periodStart: string;
+  periodEnd: string;
+  resetDay: number;
+  mode: BandwidthMode;
+  quota: number;
+  rx: number;
+  tx: number;
+  used: number;
+  remaining: number | null;
+  projected: number;
+  projectionReliable: boolean;
+  interfaces: Array<{ iface: string; rx: number; tx: number; virtual: boolean }>;
+}
+
+type StatusPageMetric = 'cpu' | 'mem' | 'disk' | 'net';
+
+// 公开状态页的展示内容，保存在后端设置 statusPage 中
+interface StatusPageConfig {
+  enabled: boolean;
+  title: string;
+  servers: Array<{ id: string; name: string }>;
+  metrics: StatusPageMetric[];
+  showUptime: boolean;
+}
+
+const DEFAULT_STATUS_PAGE: StatusPageConfig = {
+  enabled: false,
+  title: '服务状态',
+  servers: [],
+  metrics: ['cpu', 'mem'],
+  showUptime: true
+};
+
+const STATUS_PAGE_METRIC_LABELS: Record<StatusPageMetric, string> = {
+  cpu: 'CPU',
+  mem: '内存',
+  disk: '磁盘',
+  net: '网络流量'
+};
+
+// 可用性状态条的颜色分级
+const availabilityColor = (availability: number | null) => {
+  if (availability === null) return '#64748b';
+  if (availability >= 99.9) return '#22c55e';
+  if (availability >= 99) return '#eab308';
+  if (availability >= 95) return '#f97316';
+  return '#ef4444';
+};
+
+const BANDWIDTH_MODE_LABELS: Record<BandwidthMode, string> = {
+  both: '双向合计',
+  out: '仅出站',
+  in: '仅入站',
+  max: '取较大方向'
+};
+
+type HistoryRange = '1h' | '6h' | '24h' | '7d' | '30d' | '90d' | '1y';
+
+const HISTORY_RANGES: HistoryRange[] = ['1h', '6h', '24h', '7d', '30d', '90d', '1y'];
+
+type ExportFormat = 'csv' | 'json' | 'prometheus';
+
+// /api/export 可导出的历史字段
+const EXPORT_METRIC_LABELS: Record<string, string> = {
+  cpu: 'CPU',
+  mem: '内存',
+  rx: '下载',
+  tx: '上传',
+  disk: '磁盘使用率',
+  load_1: '1 分钟负载',
+  load_5: '5 分钟负载',
+  load_15: '15 分钟负载',
+  steal: '窃取时间',
+  temp: '温度',
+  speed: '频率',
+  disk_read: '磁盘读取',
+  disk_write: '磁盘写入',
+  disk_iops: 'IOPS',
+  iowait: 'I/O 等待'
+};
+
+type RetentionTier = 'raw' | '5m' | '1h';
+
+// 与后端 DEFAULT_RETENTION 保持一致（单位：天）
+const DEFAULT_RETENTION: Record<RetentionTier, number> = { raw: 7, '5m': 90, '1h': 365 };
+
+const RETENTION_LABELS: Record<RetentionTier, string> = {
+  raw: '原始数据 (1 分钟)',
+  '5m': '5 分钟汇总',
+  '1h': '1 小时汇总'
+};
+
+type NotifierType = 'webhook' | 'smtp' | 'telegram';
+
+interface NotificationChannel {
+  id: number;
+  name: string;
+  type: NotifierType;
+  config: Record<string, string>;
+  template: string | null;
+  rate_limit: number;
+  enabled: boolean;
+}
+
+const NOTIFIER_TYPES: Record<NotifierType, { label: string; fields: Array<{ key: string; label: string; placeholder: string; secret?: boolean }> }> = {
+  webhook: {
+    label: 'Webhook (JSON)',
+    fields: [
+      { key: 'url', label: 'Webhook URL', placeholder: 'https://example.com/hook' },
+      { key: 'headers', label: '自定义请求头 (JSON, 可选)', placeholder: '{"Authorization": "Bearer xxx"}' }
+    ]
+  },
+  smtp: {
+    label: 'SMTP 邮件',
+    fields: [
+      { key: 'host', label: 'SMTP 服务器', placeholder: 'smtp.example.com' },
+      { key: 'port', label: '端口', placeholder: '587' },
+      { key: 'user', label: '用户名', placeholder: 'alert@example.com' },
+      { key: 'pass', label: '密码', placeholder: '••••••', secret: true },
+      { key: 'from', label: '发件人 (可选)', placeholder: 'VPS Monitor <alert@example.com>' },
+      { key: 'to', label: '收件人', placeholder: 'ops@example.com' }
+    ]
+  },
+  telegram: {
+    label: 'Telegram Bot',
+    fields: [
+      { key: 'botToken', label: 'Bot Token', placeholder: '123456:ABC-DEF', secret: true },
+      { key: 'chatId', label: 'Chat ID', placeholder: '-1001234567890' },
+      { key: 'apiBase', label: 'API 地址 (可选)', placeholder: 'https://api.telegram.org' }
+    ]
+  }
+};
+
+type ProbeType = 'http' | 'tcp' | 'dns';
+
+interface ProbeResult {
+  success: boolean;
+  latency: number;
+  message: string;
+  timestamp: string;
+}
+
+interface Probe {
+  id: number;
+  name: string;
+  type: ProbeType;
+  config: Record<string, string>;
+  interval: number;
+  enabled: boolean;
+  last: ProbeResult | null;
+  successRate: number | null;
+  avgLatency: number | null;
+}
+
+const PROBE_TYPES: Record<ProbeType, { label: string; fields: Array<{ key: string; label: string; placeholder: string }> }> = {
+  http: {
+    label: 'HTTP(S)',
+    fields: [
+      { key: 'url', label: 'URL', placeholder: 'https://example.com/health' },
+      { key: 'expectedStatus', label: '期望状态码 (可选，默认 2xx；填写 3xx 时不跟随跳转)', placeholder: '200' },
+      { key: 'keyword', label: '响应需包含关键字 (可选)', placeholder: 'ok' }
+    ]
+  },
+  tcp: {
+    label: 'TCP 端口',
+    fields: [
+      { key: 'host', label: '主机', placeholder: '127.0.0.1' },
+      { key: 'port', label: '端口', placeholder: '443' }
+    ]
+  },
+  dns: {
+    label: 'DNS 解析',
+    fields: [
+      { key: 'hostname', label: '域名', placeholder: 'example.com' },
+      { key: 'recordType', label: '记录类型 (A/AAAA/CNAME/MX/NS/TXT)', placeholder: 'A' },
+      { key: 'expected', label: '期望结果 (可选)', placeholder: '93.184.216.34' },
+      { key: 'server', label: 'DNS 服务器 (可选)', placeholder: '1.1.1.1' }
+    ]
+  }
+};
+
+const EMPTY_PROBE = {
+  name: '',
+  type: 'http' as ProbeType,
+  config: {} as Record<string, string>,
+  interval: 60
+};
+
+const EMPTY_CHANNEL = {
+  name: '',
+  type: 'webhook' as NotifierType,
+  config: {} as Record<string, string>,
+  template: '',
+  rate_limit: 60
+};
+
+interface ViewerToken {
+  id: number;
+  name: string;
+  created_at: string;
+  expires_at: string | null;
+  token?: string;
+}
+
+// 服务器的分组、标签与备注信息，随服务器列表一起同步到云端
+interface ServerMeta {
+  group?: string;
+  tags?: string[];
+  notes?: string;
+  expiry?: string;
+  price?: string;
 }
 
-interface ServerConfig {
+interface ServerConfig extends ServerMeta {
   id: string;
   name: string;
   url: string;
+  // 由 Hub 自动发现的 agent 节点，不保存在服务器列表中
+  hubNode?: boolean;
 }
 
+const UNGROUPED = '未分组';
+
+// 距离到期的天数，未设置到期日时返回 null
+const daysUntil = (date?: string) => {
+  if (!date) return null;
+  const target = new Date(`${date}T00:00:00`);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.round((target.getTime() - today.getTime()) / 86400000);
+};
+
+// Hub 节点地址形如 http://hub:3001/nodes/<id>，与 Hub 共用同一个登录令牌
+const authKey = (url: string) => url.replace(/\/nodes\/[\w-]+$/, '');
+
+// 分享链接形如 ?token=xxx&server=http://ip:3001，读取一次后从地址栏移除
+const sharedAccess = (() => {
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get('token');
+  if (!token) return null;
+  window.history.replaceState(null, '', window.location.pathname);
+  let server = params.get('server')?.replace(/\/+$/, '') || null;
+  try {
+    if (server) new URL(server);
+  } catch {
+    server = null;
+  }
+  return { token, server };
+})();
+
+// 汇总网卡流量：选中单个网卡时只统计该网卡，否则按设置排除虚拟/回环网卡
+const sumNetwork = (network: Metrics['network'], iface: string, excludeVirtual: boolean) => {
+  const picked = iface !== 'all'
+    ? network.filter(n => n.iface === iface)
+    : network.filter(n => !(excludeVirtual && n.virtual));
+  return {
+    rx: picked.reduce((acc, curr) => acc + (curr.rx_sec || 0), 0),
+    tx: picked.reduce((acc, curr) => acc + (curr.tx_sec || 0), 0)
+  };
+};
+
 const App: React.FC = () => {
   const [isSettingsLoading, setIsSettingsLoading] = useState(true);
   const [servers, setServers] = useState<ServerConfig[]>(() => {
@@ -81,24 +436,163 @@ const App: React.FC = () => {
       defaultUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
     }
     
-    return saved ? JSON.parse(saved) : [{ id: 'default', name: '当前服务器', url: defaultUrl }];
+    const list: ServerConfig[] = saved ? JSON.parse(saved) : [];
+    // 前后端分开部署时（如 serve 在 :5174、后端在 :3001），分享链接指向的后端不一定在列表中
+    if (sharedAccess?.server) {
+      const url = authKey(sharedAccess.server);
+      if (!list.some(s => authKey(s.url) === url)) {
+        const server = { id: Math.random().toString(36).substr(2, 9), name: new URL(url).host, url };
+        // 新浏览器中没有已保存的列表，页面所在地址多半不是后端，只保留分享的服务器
+        return saved ? [...list, server] : [server];
+      }
+    }
+    return saved ? list : [{ id: 'default', name: '当前服务器', url: defaultUrl }];
   });
   
-  const [activeServerId, setActiveServerId] = useState<string>(servers[0].id);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'history'>('dashboard');
+  // 通过分享链接打开时选中被分享的服务器（Hub 节点为 <hub id>/<节点 id>）
+  const [activeServerId, setActiveServerId] = useState<string>(() => {
+    const sharedUrl = sharedAccess?.server;
+    const shared = sharedUrl ? servers.find(s => authKey(s.url) === authKey(sharedUrl)) : undefined;
+    if (!sharedUrl || !shared) return servers[0].id;
+    const nodeId = sharedUrl.match(/\/nodes\/([\w-]+)$/)?.[1];
+    return nodeId ? `${shared.id}/${nodeId}` : shared.id;
+  });
+  const [activeTab, setActiveTab] = useState<'overview' | 'dashboard' | 'history' | 'alerts' | 'probes'>('dashboard');
   const [metrics, setMetrics] = useState<Metrics | null>(null);
-  const [history, setHistory] = useState<any[]>([]);
-  const [longHistory, setLongHistory] = useState<any[]>([]);
-  const [historyRange, setHistoryRange] = useState<'1h' | '6h' | '24h' | '7d'>('1h');
+  // 按服务器 ID 保存的实时采样，切换服务器、页面或重连时保留
+  const [liveBuffers, setLiveBuffers] = useState<Record<string, LiveSample[]>>({});
+  const [longHistory, setLongHistory] = useState<HistoryPoint[]>([]);
+  const [historyRange, setHistoryRange] = useState<HistoryRange>('1h');
+  // 自定义时间窗口（毫秒时间戳），设置后优先于 historyRange
+  const [historyWindow, setHistoryWindow] = useState<{ from: number; to: number } | null>(null);
+  const [customRange, setCustomRange] = useState<{ from: string; to: string }>({ from: '', to: '' });
+  const [zoomSelection, setZoomSelection] = useState<{ start: number; end: number } | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exportMetrics, setExportMetrics] = useState<string[]>(Object.keys(EXPORT_METRIC_LABELS));
   const [isHistoryLoading, setIsHistoryLoading] = useState(false);
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [netIface, setNetIface] = useState<string>('all');
+  const [historyIfaces, setHistoryIfaces] = useState<Array<{ iface: string; virtual: boolean }>>([]);
+  const [cpuExpanded, setCpuExpanded] = useState(false);
+  const [processSearch, setProcessSearch] = useState('');
+  const [processSort, setProcessSort] = useState<{ key: ProcessSortKey; desc: boolean }>({ key: 'cpu', desc: true });
+  const [selectedContainer, setSelectedContainer] = useState<string | null>(null);
+  const [containerHistory, setContainerHistory] = useState<Array<{ timestamp: string; cpu: number | null; mem: number | null; rx: number | null; tx: number | null }>>([]);
+  const [processSnapshot, setProcessSnapshot] = useState<{ timestamp: string; processes: ProcessInfo[] } | null>(null);
+  const [socket, setSocket] = useState<DashboardSocket | null>(null);
+  const [serverHello, setServerHello] = useState<Hello | null>(null);
+  const [payloadError, setPayloadError] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [showAddServer, setShowAddServer] = useState(false);
   const [newServer, setNewServer] = useState({ name: '', url: '' });
   const [isConnected, setIsConnected] = useState(false);
   const [protocolError, setProtocolError] = useState<string | null>(null);
+  const [overviewMetrics, setOverviewMetrics] = useState<Record<string, Metrics>>({});
+  const [overviewStatus, setOverviewStatus] = useState<Record<string, boolean>>({});
+  const [overviewSort, setOverviewSort] = useState<'name' | 'status' | 'cpu' | 'mem'>('status');
+  const [overviewFilter, setOverviewFilter] = useState<'all' | 'online' | 'offline'>('all');
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [alertEvents, setAlertEvents] = useState<AlertEvent[]>([]);
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+  const [ruleError, setRuleError] = useState<string | null>(null);
+  const [probes, setProbes] = useState<Probe[]>([]);
+  const [newProbe, setNewProbe] = useState(EMPTY_PROBE);
+  const [probeError, setProbeError] = useState<string | null>(null);
+  const [selectedProbeId, setSelectedProbeId] = useState<number | null>(null);
+  const [probeHistory, setProbeHistory] = useState<Array<{ timestamp: string; latency: number | null; success_rate: number; checks: number }>>([]);
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [newChannel, setNewChannel] = useState(EMPTY_CHANNEL);
+  const [channelError, setChannelError] = useState<string | null>(null);
+  const [channelTestStatus, setChannelTestStatus] = useState<Record<number, string>>({});
+
+  // 每个 Hub 服务器上注册的 agent 节点
+  const [hubNodes, setHubNodes] = useState<Record<string, HubNode[]>>({});
+  const [newNodeName, setNewNodeName] = useState('');
+  const [createdNode, setCreatedNode] = useState<HubNode | null>(null);
+  // Hub 节点不在 servers 中，其分组与备注单独保存
+  const [hubNodeMeta, setHubNodeMeta] = useState<Record<string, ServerMeta>>(() => {
+    return JSON.parse(localStorage.getItem('vps_hub_node_meta') || '{}');
+  });
+  const [serverOrder, setServerOrder] = useState<string[]>(() => {
+    return JSON.parse(localStorage.getItem('vps_server_order') || '[]');
+  });
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>(() => {
+    return JSON.parse(localStorage.getItem('vps_collapsed_groups') || '[]');
+  });
+  const [serverSearch, setServerSearch] = useState('');
+  const [draggingServerId, setDraggingServerId] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+
+  const allServers = useMemo(() => {
+    const list: ServerConfig[] = servers.flatMap(server => [
+      server,
+      ...(hubNodes[server.id] || []).map(node => ({
+        ...hubNodeMeta[`${server.id}/${node.id}`],
+        id: `${server.id}/${node.id}`,
+        name: node.name,
+        url: `${server.url}/nodes/${node.id}`,
+        hubNode: true
+      }))
+    ]);
+    // 按拖拽顺序排列，未排序过的服务器保持原有顺序并排在最后
+    const rank = (id: string) => {
+      const index = serverOrder.indexOf(id);
+      return index === -1 ? serverOrder.length : index;
+    };
+    return list
+      .map((server, index) => ({ server, index }))
+      .sort((a, b) => rank(a.server.id) - rank(b.server.id) || a.index - b.index)
+      .map(({ server }) => server);
+  }, [servers, hubNodes, hubNodeMeta, serverOrder]);
+
+  const activeServer = allServers.find(s => s.id === activeServerId) || servers[0];
+  const hubServer = servers.find(s => s.id === activeServerId.split('/')[0]) || servers[0];
+
+  // 每个后端地址各自的访问令牌
+  const [authTokens, setAuthTokens] = useState<Record<string, string>>(() => {
+    const saved: Record<string, string> = JSON.parse(localStorage.getItem('vps_auth_tokens') || '{}');
+    if (sharedAccess) saved[authKey(sharedAccess.server || servers[0].url)] = sharedAccess.token;
+    return saved;
+  });
+  const authToken = authTokens[authKey(activeServer.url)];
+  const [authRole, setAuthRole] = useState<'admin' | 'viewer' | null>(null);
+  const [authRequired, setAuthRequired] = useState(false);
+  const [loginPassword, setLoginPassword] = useState('');
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [viewerTokens, setViewerTokens] = useState<ViewerToken[]>([]);
+  const [bandwidth, setBandwidth] = useState<BandwidthUsage | null>(null);
+  const [uptime, setUptime] = useState<UptimeReport | null>(null);
+  const [statusPage, setStatusPage] = useState<StatusPageConfig>(DEFAULT_STATUS_PAGE);
+  const [retention, setRetention] = useState<Record<RetentionTier, number>>(DEFAULT_RETENTION);
+  const [systemdUnits, setSystemdUnits] = useState('');
+  const [serviceEvents, setServiceEvents] = useState<ServiceEvent[]>([]);
+  const [journal, setJournal] = useState<{ unit: string; lines: string[] } | null>(null);
+  const [bandwidthForm, setBandwidthForm] = useState<{ quota: number; resetDay: number; mode: BandwidthMode }>({ quota: 0, resetDay: 1, mode: 'both' });
+  const [newTokenName, setNewTokenName] = useState('');
+  const [createdToken, setCreatedToken] = useState<ViewerToken | null>(null);
+  const [passwordForm, setPasswordForm] = useState({ currentPassword: '', newPassword: '' });
+  const [passwordStatus, setPasswordStatus] = useState<string | null>(null);
 
-  const activeServer = servers.find(s => s.id === activeServerId) || servers[0];
+  useEffect(() => {
+    localStorage.setItem('vps_auth_tokens', JSON.stringify(authTokens));
+  }, [authTokens]);
+
+  const authFetch = useCallback(async (path: string, init: RequestInit = {}) => {
+    const headers = new Headers(init.headers);
+    if (authToken) headers.set('Authorization', `Bearer ${authToken}`);
+    const response = await fetch(`${activeServer.url}${path}`, { ...init, headers });
+    if (response.status === 401) setAuthRequired(true);
+    return response;
+  }, [activeServer.url, authToken]);
+
+  useEffect(() => {
+    setAuthRequired(false);
+    setAuthRole(null);
+    authFetch('/api/auth/me')
+      .then(r => r.ok ? r.json() : null)
+      .then(data => { if (data) setAuthRole(data.role); })
+      .catch(() => {});
+  }, [authFetch]);
 
   const [bgImage, setBgImage] = useState<string | null>(() => localStorage.getItem('vps_bg_image'));
   const [themeColor, setThemeColor] = useState<string>(() => localStorage.getItem('vps_theme_color') || '#3b82f6');
@@ -117,11 +611,31 @@ const App: React.FC = () => {
   const [netUnit, setNetUnit] = useState<'Auto' | 'KB/s' | 'MB/s' | 'Mbps'>(() => {
     return (localStorage.getItem('vps_net_unit') as any) || 'Auto';
   });
+  const [excludeVirtualIfaces, setExcludeVirtualIfaces] = useState<boolean>(() => {
+    return localStorage.getItem('vps_exclude_virtual_ifaces') !== 'false';
+  });
+  const [liveWindow, setLiveWindow] = useState<LiveWindow>(() => {
+    const saved = Number(localStorage.getItem('vps_live_window'));
+    return LIVE_WINDOWS.find(w => w === saved) ?? 5;
+  });
+
+  // 当前服务器在所选时间窗口内的实时采样
+  const history = useMemo(() => {
+    const buffer = liveBuffers[activeServerId] ?? [];
+    if (buffer.length === 0) return [];
+    const from = buffer[buffer.length - 1].timestamp - liveWindow * 60000;
+    return buffer
+      .filter(s => s.timestamp > from)
+      .map(s => ({ ...s, time: new Date(s.timestamp).toLocaleTimeString() }));
+  }, [liveBuffers, activeServerId, liveWindow]);
 
   // Fetch settings from cloud
   const fetchCloudSettings = useCallback(async () => {
+    let unauthorized = false;
+    setIsSettingsLoading(true);
     try {
-      const response = await fetch(`${activeServer.url}/api/settings`);
+      const response = await authFetch('/api/settings');
+      unauthorized = response.status === 401;
       if (response.ok) {
         const cloudSettings = await response.json();
         if (Object.keys(cloudSettings).length > 0) {
@@ -130,21 +644,30 @@ const App: React.FC = () => {
           if (cloudSettings.cardOpacity !== undefined) setCardOpacity(cloudSettings.cardOpacity);
           if (cloudSettings.maskOpacity !== undefined) setMaskOpacity(cloudSettings.maskOpacity);
           if (cloudSettings.netUnit !== undefined) setNetUnit(cloudSettings.netUnit);
+          if (cloudSettings.excludeVirtualIfaces !== undefined) setExcludeVirtualIfaces(cloudSettings.excludeVirtualIfaces);
+          if (LIVE_WINDOWS.includes(cloudSettings.liveWindow)) setLiveWindow(cloudSettings.liveWindow);
           if (cloudSettings.servers !== undefined) setServers(cloudSettings.servers);
+          if (cloudSettings.hubNodeMeta !== undefined) setHubNodeMeta(cloudSettings.hubNodeMeta);
+          if (cloudSettings.serverOrder !== undefined) setServerOrder(cloudSettings.serverOrder);
           if (cloudSettings.bgImage !== undefined) setBgImage(cloudSettings.bgImage);
+          setRetention({ ...DEFAULT_RETENTION, ...cloudSettings.retention });
+          setStatusPage({ ...DEFAULT_STATUS_PAGE, ...cloudSettings.statusPage });
+          setSystemdUnits(Array.isArray(cloudSettings.systemdUnits) ? cloudSettings.systemdUnits.join(', ') : '');
         }
       }
     } catch (e) {
       console.error("Failed to fetch cloud settings:", e);
     } finally {
-      setIsSettingsLoading(false);
+      // 未登录时保持加载状态，避免登录后本地设置覆盖云端设置
+      if (!unauthorized) setIsSettingsLoading(false);
     }
-  }, [activeServer.url]);
+  }, [authFetch]);
 
   // Save settings to cloud
   const saveCloudSettings = useCallback(async (updates: any) => {
+    if (authRole === 'viewer') return;
     try {
-      await fetch(`${activeServer.url}/api/settings`, {
+      await authFetch('/api/settings', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(updates)
@@ -152,7 +675,7 @@ const App: React.FC = () => {
     } catch (e) {
       console.error("Failed to save cloud settings:", e);
     }
-  }, [activeServer.url]);
+  }, [authFetch, authRole]);
 
   useEffect(() => {
     fetchCloudSettings();
@@ -174,11 +697,42 @@ const App: React.FC = () => {
     if (!isSettingsLoading) saveCloudSettings({ netUnit });
   }, [netUnit, isSettingsLoading, saveCloudSettings]);
 
+  useEffect(() => {
+    localStorage.setItem('vps_exclude_virtual_ifaces', excludeVirtualIfaces.toString());
+    if (!isSettingsLoading) saveCloudSettings({ excludeVirtualIfaces });
+  }, [excludeVirtualIfaces, isSettingsLoading, saveCloudSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('vps_live_window', liveWindow.toString());
+    if (!isSettingsLoading) saveCloudSettings({ liveWindow });
+  }, [liveWindow, isSettingsLoading, saveCloudSettings]);
+
+  useEffect(() => {
+    setNetIface('all');
+    setBandwidth(null);
+    setUptime(null);
+    setTagInput('');
+  }, [activeServerId]);
+
   useEffect(() => {
     localStorage.setItem('vps_servers', JSON.stringify(servers));
     if (!isSettingsLoading) saveCloudSettings({ servers });
   }, [servers, isSettingsLoading, saveCloudSettings]);
 
+  useEffect(() => {
+    localStorage.setItem('vps_hub_node_meta', JSON.stringify(hubNodeMeta));
+    if (!isSettingsLoading) saveCloudSettings({ hubNodeMeta });
+  }, [hubNodeMeta, isSettingsLoading, saveCloudSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('vps_server_order', JSON.stringify(serverOrder));
+    if (!isSettingsLoading) saveCloudSettings({ serverOrder });
+  }, [serverOrder, isSettingsLoading, saveCloudSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('vps_collapsed_groups', JSON.stringify(collapsedGroups));
+  }, [collapsedGroups]);
+
   useEffect(() => {
     if (bgImage) {
       localStorage.setItem('vps_bg_image', bgImage);
@@ -217,16 +771,44 @@ const App: React.FC = () => {
     if (activeTab === 'history') {
       fetchHistory();
     }
-  }, [activeTab, activeServerId, historyRange, activeServer.url]);
+  }, [activeTab, activeServerId, historyRange, historyWindow, activeServer.url, netIface]);
+
+  const fetchProcessSnapshot = async (timestamp: string) => {
+    try {
+      const response = await authFetch(`/api/history/processes?timestamp=${encodeURIComponent(timestamp)}`);
+      if (response.ok) setProcessSnapshot(await response.json());
+    } catch (e) {
+      console.error("Error fetching process snapshot:", e);
+    }
+  };
+
+  const historyQuery = historyWindow
+    ? `from=${new Date(historyWindow.from).toISOString()}&to=${new Date(historyWindow.to).toISOString()}`
+    : `range=${historyRange}`;
+
+  // 直接以链接下载，由浏览器流式写入文件；令牌通过查询参数传递
+  const exportUrl = `${activeServer.url}/api/export?${historyQuery}&format=${exportFormat}&metrics=${exportMetrics.join(',')}${authToken ? `&token=${encodeURIComponent(authToken)}` : ''}`;
 
   const fetchHistory = async () => {
     setIsHistoryLoading(true);
+    setProcessSnapshot(null);
     try {
-      const response = await fetch(`${activeServer.url}/api/history?range=${historyRange}`);
+      const ifaceParam = netIface !== 'all' ? `&iface=${encodeURIComponent(netIface)}` : '';
+      const [response, ifaceResponse] = await Promise.all([
+        authFetch(`/api/history?${historyQuery}${ifaceParam}`),
+        authFetch('/api/history/interfaces')
+      ]);
       if (response.ok) {
-        const data = await response.json();
-        setLongHistory(data);
+        const result = validate(historyResponseSchema, await response.json(), 'history');
+        if (result.ok) {
+          setLongHistory(result.value);
+        } else {
+          console.warn("Invalid history response:", result.error);
+          setPayloadError(result.error);
+          setLongHistory([]);
+        }
       }
+      if (ifaceResponse.ok) setHistoryIfaces(await ifaceResponse.json());
     } catch (e) {
       console.error("Error fetching history:", e);
     } finally {
@@ -234,138 +816,870 @@ const App: React.FC = () => {
     }
   };
 
-  const connectToSocket = useCallback((url: string) => {
-    if (socket) {
-      socket.close();
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const [rulesRes, eventsRes] = await Promise.all([
+        authFetch(`/api/alerts/rules`),
+        authFetch(`/api/alerts?limit=200`)
+      ]);
+      if (rulesRes.ok) setAlertRules(await rulesRes.json());
+      if (eventsRes.ok) setAlertEvents(await eventsRes.json());
+    } catch (e) {
+      console.error("Error fetching alerts:", e);
     }
+  }, [authFetch]);
 
-    const newSocket = io(url, {
-      reconnectionAttempts: 5,
-      timeout: 10000,
-    });
-
-    setSocket(newSocket);
-    setIsConnected(false);
-    setMetrics(null);
-    setHistory([]);
+  useEffect(() => {
+    setAlertRules([]);
+    setAlertEvents([]);
+    fetchAlerts();
+  }, [fetchAlerts]);
 
-    newSocket.on('connect', () => {
-      setIsConnected(true);
-      console.log('Connected to', url);
-    });
+  const createRule = async () => {
+    setRuleError(null);
+    try {
+      const response = await authFetch(`/api/alerts/rules`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...newRule,
+          target: newRule.target.trim() || null,
+          duration: newRule.duration * 60
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setRuleError(data.error || '创建规则失败');
+        return;
+      }
+      setAlertRules(prev => [...prev, data]);
+      setNewRule(EMPTY_RULE);
+    } catch (e) {
+      console.error("Failed to create alert rule:", e);
+      setRuleError('创建规则失败');
+    }
+  };
 
-    newSocket.on('metrics', (data: Metrics) => {
-      setMetrics(data);
-      setHistory(prev => {
-        const lastTime = prev.length > 0 ? prev[prev.length - 1].time : '';
-        const currentTime = new Date().toLocaleTimeString();
-        
-        // Only update history if the time has changed to avoid redundant points
-        if (currentTime === lastTime) return prev;
-        
-        // Calculate total network traffic
-        const totalRx = data.network.reduce((acc, curr) => acc + (curr.rx_sec || 0), 0);
-        const totalTx = data.network.reduce((acc, curr) => acc + (curr.tx_sec || 0), 0);
-        
-        const newHistory = [...prev, {
-          time: currentTime,
-          cpu: Math.round(data.cpu.load),
-          mem: Math.round(data.memory.percentage),
-          rx: totalRx,
-          tx: totalTx
-        }];
-        return newHistory.slice(-30); // Increased history a bit for better chart view
+  const toggleRule = async (rule: AlertRule) => {
+    try {
+      const response = await authFetch(`/api/alerts/rules/${rule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !rule.enabled })
       });
-    });
+      if (response.ok) {
+        const updated = await response.json();
+        setAlertRules(prev => prev.map(r => r.id === rule.id ? updated : r));
+      }
+    } catch (e) {
+      console.error("Failed to update alert rule:", e);
+    }
+  };
 
-    newSocket.on('disconnect', () => {
-      setIsConnected(false);
-    });
+  const deleteRule = async (id: number) => {
+    try {
+      const response = await authFetch(`/api/alerts/rules/${id}`, { method: 'DELETE' });
+      if (response.ok) setAlertRules(prev => prev.filter(r => r.id !== id));
+    } catch (e) {
+      console.error("Failed to delete alert rule:", e);
+    }
+  };
 
-    newSocket.on('connect_error', () => {
-      setIsConnected(false);
-    });
+  const fetchProbes = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/probes');
+      if (response.ok) setProbes(await response.json());
+    } catch (e) {
+      console.error("Error fetching probes:", e);
+    }
+  }, [authFetch]);
 
-    return newSocket;
-  }, [socket]);
+  useEffect(() => {
+    setProbes([]);
+    setSelectedProbeId(null);
+    if (activeTab !== 'probes') return;
+    fetchProbes();
+    const timer = setInterval(fetchProbes, 15000);
+    return () => clearInterval(timer);
+  }, [activeTab, fetchProbes]);
 
   useEffect(() => {
-    const s = connectToSocket(activeServer.url);
-    return () => {
-      s.close();
-    };
-  }, [activeServerId, activeServer.url]);
+    setContainerHistory([]);
+    if (selectedContainer === null) return;
+    authFetch(`/api/history/containers?name=${encodeURIComponent(selectedContainer)}&range=24h`)
+      .then(r => r.ok ? r.json() : [])
+      .then(setContainerHistory)
+      .catch(e => console.error("Error fetching container history:", e));
+  }, [selectedContainer, authFetch]);
 
-  const addServer = () => {
-    if (newServer.name && newServer.url) {
-      const id = Math.random().toString(36).substr(2, 9);
-      setServers([...servers, { ...newServer, id }]);
-      setNewServer({ name: '', url: '' });
-      setActiveServerId(id);
+  useEffect(() => {
+    setProbeHistory([]);
+    if (selectedProbeId === null) return;
+    authFetch(`/api/probes/${selectedProbeId}/history?range=24h`)
+      .then(r => r.ok ? r.json() : [])
+      .then(setProbeHistory)
+      .catch(e => console.error("Error fetching probe history:", e));
+  }, [selectedProbeId, authFetch]);
+
+  const createProbe = async () => {
+    setProbeError(null);
+    try {
+      const response = await authFetch('/api/probes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newProbe)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setProbeError(data.error || '添加检查失败');
+        return;
+      }
+      setProbes(prev => [...prev, data]);
+      setNewProbe(EMPTY_PROBE);
+    } catch (e) {
+      console.error("Failed to create probe:", e);
+      setProbeError('添加检查失败');
     }
   };
 
-  const deleteServer = (id: string) => {
-    if (servers.length > 1) {
-      const filtered = servers.filter(s => s.id !== id);
-      setServers(filtered);
-      if (activeServerId === id) {
-        setActiveServerId(filtered[0].id);
+  const toggleProbe = async (probe: Probe) => {
+    try {
+      const response = await authFetch(`/api/probes/${probe.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !probe.enabled })
+      });
+      if (response.ok) {
+        const updated = await response.json();
+        setProbes(prev => prev.map(p => p.id === probe.id ? updated : p));
       }
+    } catch (e) {
+      console.error("Failed to update probe:", e);
     }
   };
 
-  const updateActiveServer = (updates: Partial<ServerConfig>) => {
-    setServers(prev => prev.map(s => 
-      s.id === activeServerId ? { ...s, ...updates } : s
-    ));
+  const deleteProbe = async (id: number) => {
+    try {
+      const response = await authFetch(`/api/probes/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        setProbes(prev => prev.filter(p => p.id !== id));
+        if (selectedProbeId === id) setSelectedProbeId(null);
+      }
+    } catch (e) {
+      console.error("Failed to delete probe:", e);
+    }
   };
 
-  const formatBytes = (bytes: number) => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  const runProbeNow = async (id: number) => {
+    try {
+      await authFetch(`/api/probes/${id}/run`, { method: 'POST' });
+      fetchProbes();
+    } catch (e) {
+      console.error("Failed to run probe:", e);
+    }
   };
 
-  const formatNetValue = (bytes: number, unit: 'Auto' | 'KB/s' | 'MB/s' | 'Mbps') => {
-    if (unit === 'Auto') return formatBytes(bytes) + '/s';
-    if (unit === 'KB/s') return (bytes / 1024).toFixed(2) + ' KB/s';
-    if (unit === 'MB/s') return (bytes / (1024 * 1024)).toFixed(2) + ' MB/s';
-    if (unit === 'Mbps') return ((bytes * 8) / (1000 * 1000)).toFixed(2) + ' Mbps';
-    return formatBytes(bytes) + '/s';
-  };
+  const fetchChannels = useCallback(async () => {
+    try {
+      const response = await authFetch(`/api/notifiers`);
+      if (response.ok) setChannels(await response.json());
+    } catch (e) {
+      console.error("Error fetching notification channels:", e);
+    }
+  }, [authFetch]);
 
-  const getNetValue = (bytes: number, unit: 'Auto' | 'KB/s' | 'MB/s' | 'Mbps') => {
-    if (unit === 'Auto') return bytes; // For Auto, we keep raw bytes and format at the end
-    if (unit === 'KB/s') return bytes / 1024;
-    if (unit === 'MB/s') return bytes / (1024 * 1024);
-    if (unit === 'Mbps') return (bytes * 8) / (1000 * 1000);
-    return bytes;
-  };
+  const fetchViewerTokens = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/auth/tokens');
+      if (response.ok) setViewerTokens(await response.json());
+    } catch (e) {
+      console.error("Error fetching viewer tokens:", e);
+    }
+  }, [authFetch]);
 
-  const formatUptime = (seconds: number) => {
-    const d = Math.floor(seconds / (3600 * 24));
-    const h = Math.floor((seconds % (3600 * 24)) / 3600);
-    const m = Math.floor((seconds % 3600) / 60);
-    const s = Math.floor(seconds % 60);
-    return `${d}d ${h}h ${m}m ${s}s`;
-  };
+  useEffect(() => {
+    if (showSettings && authRole === 'admin') {
+      fetchChannels();
+      fetchViewerTokens();
+    }
+  }, [showSettings, authRole, fetchChannels, fetchViewerTokens]);
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setBgImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  // syncForm 仅在首次加载或保存后回填配额表单，避免定时刷新覆盖正在编辑的内容
+  const fetchBandwidth = useCallback(async (syncForm = false) => {
+    try {
+      const response = await authFetch('/api/bandwidth');
+      if (response.ok) {
+        const data: BandwidthUsage = await response.json();
+        setBandwidth(data);
+        if (syncForm) setBandwidthForm({ quota: data.quota / 1024 ** 3, resetDay: data.resetDay, mode: data.mode });
+      }
+    } catch (e) {
+      console.error("Error fetching bandwidth usage:", e);
     }
-  };
+  }, [authFetch]);
 
-  return (
-    <div 
+  useEffect(() => {
+    if (activeTab !== 'dashboard' && !showSettings) return;
+    fetchBandwidth(true);
+    const timer = setInterval(() => fetchBandwidth(), 60000);
+    return () => clearInterval(timer);
+  }, [activeTab, showSettings, fetchBandwidth]);
+
+  const fetchUptime = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/uptime');
+      if (response.ok) setUptime(await response.json());
+    } catch (e) {
+      console.error("Error fetching uptime:", e);
+    }
+  }, [authFetch]);
+
+  useEffect(() => {
+    if (activeTab !== 'dashboard') return;
+    fetchUptime();
+    const timer = setInterval(fetchUptime, 60000);
+    return () => clearInterval(timer);
+  }, [activeTab, fetchUptime]);
+
+  const fetchServiceEvents = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/services/events?range=7d');
+      if (response.ok) setServiceEvents(await response.json());
+    } catch (e) {
+      console.error("Error fetching service events:", e);
+    }
+  }, [authFetch]);
+
+  useEffect(() => {
+    setServiceEvents([]);
+    setJournal(null);
+    if (activeTab !== 'dashboard') return;
+    fetchServiceEvents();
+    const timer = setInterval(fetchServiceEvents, 60000);
+    return () => clearInterval(timer);
+  }, [activeTab, fetchServiceEvents]);
+
+  const fetchJournal = async (unit: string) => {
+    try {
+      const response = await authFetch(`/api/services/journal?unit=${encodeURIComponent(unit)}&lines=100`);
+      if (response.ok) setJournal(await response.json());
+    } catch (e) {
+      console.error("Error fetching journal:", e);
+    }
+  };
+
+  const saveSystemdUnits = () => {
+    saveCloudSettings({ systemdUnits: systemdUnits.split(/[\s,]+/).filter(Boolean) });
+  };
+
+  const slaReportUrl = `${activeServer.url}/api/uptime/report?range=30d&format=csv${authToken ? `&token=${encodeURIComponent(authToken)}` : ''}`;
+
+  const saveBandwidthSettings = async () => {
+    try {
+      await authFetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bandwidthQuota: bandwidthForm.quota,
+          bandwidthResetDay: bandwidthForm.resetDay,
+          bandwidthMode: bandwidthForm.mode
+        })
+      });
+      fetchBandwidth(true);
+    } catch (e) {
+      console.error("Failed to save bandwidth settings:", e);
+    }
+  };
+
+  const login = async () => {
+    setLoginError(null);
+    try {
+      const response = await fetch(`${activeServer.url}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: loginPassword })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setLoginError(response.status === 429 ? '尝试次数过多，请稍后再试' : '密码错误');
+        return;
+      }
+      setLoginPassword('');
+      setAuthTokens(prev => ({ ...prev, [authKey(activeServer.url)]: data.token }));
+    } catch (e) {
+      console.error("Login failed:", e);
+      setLoginError('无法连接到服务器');
+    }
+  };
+
+  const logout = async () => {
+    try {
+      await authFetch('/api/auth/logout', { method: 'POST' });
+    } catch (e) {
+      console.error("Logout failed:", e);
+    }
+    setAuthTokens(prev => {
+      const next = { ...prev };
+      delete next[authKey(activeServer.url)];
+      return next;
+    });
+  };
+
+  const createViewerToken = async () => {
+    if (!newTokenName.trim()) return;
+    try {
+      const response = await authFetch('/api/auth/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newTokenName.trim() })
+      });
+      if (response.ok) {
+        const data: ViewerToken = await response.json();
+        setCreatedToken(data);
+        setViewerTokens(prev => [...prev, data]);
+        setNewTokenName('');
+      }
+    } catch (e) {
+      console.error("Failed to create viewer token:", e);
+    }
+  };
+
+  const deleteViewerToken = async (id: number) => {
+    try {
+      const response = await authFetch(`/api/auth/tokens/${id}`, { method: 'DELETE' });
+      if (response.ok) setViewerTokens(prev => prev.filter(t => t.id !== id));
+    } catch (e) {
+      console.error("Failed to delete viewer token:", e);
+    }
+  };
+
+  const changePassword = async () => {
+    setPasswordStatus(null);
+    try {
+      const response = await authFetch('/api/auth/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(passwordForm)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setPasswordStatus(data.error || '修改失败');
+        return;
+      }
+      setPasswordForm({ currentPassword: '', newPassword: '' });
+      setPasswordStatus('密码已修改');
+      setAuthTokens(prev => ({ ...prev, [authKey(activeServer.url)]: data.token }));
+    } catch (e) {
+      console.error("Failed to change password:", e);
+      setPasswordStatus('修改失败');
+    }
+  };
+
+  const shareLink = (token: string) => 
+    `${window.location.origin}${window.location.pathname}?token=${token}&server=${encodeURIComponent(activeServer.url)}`;
+
+  const createChannel = async () => {
+    setChannelError(null);
+    try {
+      const response = await authFetch(`/api/notifiers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...newChannel, template: newChannel.template.trim() || null })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setChannelError(data.error || '添加通知渠道失败');
+        return;
+      }
+      setChannels(prev => [...prev, data]);
+      setNewChannel(EMPTY_CHANNEL);
+    } catch (e) {
+      console.error("Failed to create notification channel:", e);
+      setChannelError('添加通知渠道失败');
+    }
+  };
+
+  const deleteChannel = async (id: number) => {
+    try {
+      const response = await authFetch(`/api/notifiers/${id}`, { method: 'DELETE' });
+      if (response.ok) setChannels(prev => prev.filter(c => c.id !== id));
+    } catch (e) {
+      console.error("Failed to delete notification channel:", e);
+    }
+  };
+
+  const testChannel = async (id: number) => {
+    setChannelTestStatus(prev => ({ ...prev, [id]: '发送中...' }));
+    try {
+      const response = await authFetch(`/api/notifiers/${id}/test`, { method: 'POST' });
+      const data = await response.json();
+      setChannelTestStatus(prev => ({ ...prev, [id]: response.ok ? '发送成功' : (data.error || '发送失败') }));
+    } catch {
+      setChannelTestStatus(prev => ({ ...prev, [id]: '发送失败' }));
+    }
+  };
+
+  const connectToSocket = useCallback((url: string, serverId: string) => {
+    if (socket) {
+      socket.close();
+    }
+
+    const newSocket: DashboardSocket = io(url, {
+      reconnectionAttempts: 5,
+      timeout: 10000,
+      auth: { token: authToken, protocolVersion: PROTOCOL_VERSION }
+    });
+
+    setSocket(newSocket);
+    setIsConnected(false);
+    setMetrics(null);
+    setServerHello(null);
+    setPayloadError(null);
+    let helloReceived = false;
+
+    newSocket.on('connect', () => {
+      setIsConnected(true);
+      console.log('Connected to', url);
+    });
+
+    newSocket.on('hello', (hello) => {
+      helloReceived = true;
+      setServerHello(hello);
+    });
+
+    onMetricsStream(newSocket, (result) => {
+      // 早于版本握手的后端不会发送 hello
+      if (!helloReceived) {
+        helloReceived = true;
+        setServerHello({ protocolVersion: LEGACY_PROTOCOL_VERSION, role: 'standalone' });
+      }
+      if (!result.ok) {
+        console.warn("Invalid metrics payload:", result.error);
+        setPayloadError(result.error);
+        return;
+      }
+      const data = result.value;
+      setPayloadError(null);
+      setMetrics(data);
+      const timestamp = Date.now();
+      setLiveBuffers(prev => {
+        const buffer = prev[serverId] ?? [];
+        const last = buffer[buffer.length - 1];
+
+        // Only keep one sample per second to avoid redundant points
+        if (last && Math.floor(last.timestamp / 1000) === Math.floor(timestamp / 1000)) return prev;
+
+        // Keep per-interface rates; totals are computed when rendering
+        return {
+          ...prev,
+          [serverId]: trimLiveSamples([...buffer, {
+            timestamp,
+            cpu: Math.round(data.cpu.load),
+            mem: Math.round(data.memory.percentage),
+            network: data.network,
+            diskRead: data.diskIO?.devices.reduce((acc, curr) => acc + curr.read_sec, 0) ?? 0,
+            diskWrite: data.diskIO?.devices.reduce((acc, curr) => acc + curr.write_sec, 0) ?? 0
+          }])
+        };
+      });
+    });
+
+    // 订阅时后端先发送其缓冲的最近采样，补齐断线或离开仪表盘期间的空缺
+    newSocket.on('samples', (payload) => {
+      const result = validate(liveSamplesSchema, payload, 'samples');
+      if (!result.ok) {
+        console.warn("Invalid samples payload:", result.error);
+        return;
+      }
+      setLiveBuffers(prev => ({ ...prev, [serverId]: mergeLiveSamples(prev[serverId] ?? [], result.value) }));
+    });
+
+    newSocket.on('alert', (payload) => {
+      const result = validate(alertEventSchema, payload, 'alert');
+      if (!result.ok) {
+        console.warn("Invalid alert event:", result.error);
+        return;
+      }
+      const alert = result.value;
+      setAlertEvents(prev => [alert, ...prev].slice(0, 200));
+      setAlertRules(prev => prev.map(r => 
+        r.id === alert.rule_id ? { ...r, state: alert.state === 'firing' ? 'firing' : 'ok' } : r
+      ));
+    });
+
+    newSocket.on('disconnect', () => {
+      setIsConnected(false);
+    });
+
+    newSocket.on('connect_error', (err) => {
+      setIsConnected(false);
+      if (err.message === 'Unauthorized') setAuthRequired(true);
+    });
+
+    return newSocket;
+  }, [socket, authToken]);
+
+  useEffect(() => {
+    const s = connectToSocket(activeServer.url, activeServerId);
+    return () => {
+      s.close();
+    };
+  }, [activeServerId, activeServer.url, authToken]);
+
+  // 仅在仪表盘页面订阅实时数据，其他页面不需要，后端可暂停较重的采集
+  useEffect(() => {
+    if (!socket) return;
+    const subscribe = () => socket.emit('subscribe', activeTab === 'dashboard'
+      ? { groups: [...METRIC_GROUPS], interval: 1000, samples: liveWindow * 60 }
+      : { groups: [], interval: 1000 });
+    if (socket.connected) subscribe();
+    socket.on('connect', subscribe);
+    return () => {
+      socket.off('connect', subscribe);
+    };
+  }, [socket, activeTab, liveWindow]);
+
+  // 总览模式下同时连接所有服务器
+  useEffect(() => {
+    if (activeTab !== 'overview') return;
+
+    const sockets = allServers.map(server => {
+      const s: DashboardSocket = io(server.url, {
+        timeout: 10000,
+        auth: { token: authTokens[authKey(server.url)], protocolVersion: PROTOCOL_VERSION }
+      });
+      const setOnline = (online: boolean) => setOverviewStatus(prev => ({ ...prev, [server.id]: online }));
+
+      s.on('connect', () => {
+        setOnline(true);
+        s.emit('subscribe', { groups: OVERVIEW_GROUPS, interval: 2000 });
+      });
+      s.on('disconnect', () => setOnline(false));
+      s.on('connect_error', () => setOnline(false));
+      onMetricsStream(s, (result) => {
+        if (!result.ok) {
+          console.warn(`Invalid metrics payload from ${server.name}:`, result.error);
+          return;
+        }
+        setOverviewMetrics(prev => ({ ...prev, [server.id]: result.value }));
+      });
+      return s;
+    });
+
+    return () => {
+      sockets.forEach(s => s.close());
+      setOverviewStatus({});
+    };
+  }, [activeTab, allServers, authTokens]);
+
+  const overviewServers = allServers
+    .filter(server => {
+      if (overviewFilter === 'online') return overviewStatus[server.id];
+      if (overviewFilter === 'offline') return !overviewStatus[server.id];
+      return true;
+    })
+    .sort((a, b) => {
+      const ma = overviewMetrics[a.id];
+      const mb = overviewMetrics[b.id];
+      switch (overviewSort) {
+        case 'status': return Number(!!overviewStatus[a.id]) - Number(!!overviewStatus[b.id]) || a.name.localeCompare(b.name);
+        case 'cpu': return (mb?.cpu.load ?? -1) - (ma?.cpu.load ?? -1);
+        case 'mem': return (mb?.memory.percentage ?? -1) - (ma?.memory.percentage ?? -1);
+        default: return a.name.localeCompare(b.name);
+      }
+    });
+
+  const onlineCount = allServers.filter(s => overviewStatus[s.id]).length;
+
+  // 从 Hub 模式的服务器拉取其 agent 节点列表
+  const fetchHubNodes = useCallback(async () => {
+    const next: Record<string, HubNode[]> = {};
+    await Promise.all(servers.map(async server => {
+      try {
+        const token = authTokens[authKey(server.url)];
+        const response = await fetch(`${server.url}/api/nodes`, {
+          headers: token ? { Authorization: `Bearer ${token}` } : {}
+        });
+        if (!response.ok) return;
+        const data: { role: string; nodes: HubNode[] } = await response.json();
+        if (data.role === 'hub') next[server.id] = data.nodes;
+      } catch {
+        // 旧版本或离线的服务器没有节点列表
+      }
+    }));
+    setHubNodes(next);
+  }, [servers, authTokens]);
+
+  useEffect(() => {
+    fetchHubNodes();
+    const timer = setInterval(fetchHubNodes, 30000);
+    return () => clearInterval(timer);
+  }, [fetchHubNodes]);
+
+  const hubFetch = (path: string, init: RequestInit = {}) => {
+    const token = authTokens[authKey(hubServer.url)];
+    const headers = new Headers(init.headers);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    return fetch(`${hubServer.url}${path}`, { ...init, headers });
+  };
+
+  const createHubNode = async () => {
+    if (!newNodeName.trim()) return;
+    try {
+      const response = await hubFetch('/api/nodes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newNodeName.trim() })
+      });
+      if (response.ok) {
+        setCreatedNode(await response.json());
+        setNewNodeName('');
+        fetchHubNodes();
+      }
+    } catch (e) {
+      console.error("Error creating node:", e);
+    }
+  };
+
+  const deleteHubNode = async (id: string) => {
+    if (!confirm('删除节点将同时删除其全部历史数据，确定继续吗？')) return;
+    try {
+      await hubFetch(`/api/nodes/${id}`, { method: 'DELETE' });
+      if (activeServerId === `${hubServer.id}/${id}`) setActiveServerId(hubServer.id);
+      fetchHubNodes();
+    } catch (e) {
+      console.error("Error deleting node:", e);
+    }
+  };
+
+  const addServer = () => {
+    if (newServer.name && newServer.url) {
+      const id = Math.random().toString(36).substr(2, 9);
+      setServers([...servers, { ...newServer, id }]);
+      setNewServer({ name: '', url: '' });
+      setActiveServerId(id);
+    }
+  };
+
+  const deleteServer = (id: string) => {
+    if (servers.length > 1) {
+      const filtered = servers.filter(s => s.id !== id);
+      setServers(filtered);
+      if (activeServerId === id) {
+        setActiveServerId(filtered[0].id);
+      }
+    }
+  };
+
+  const updateActiveServer = (updates: Partial<ServerConfig>) => {
+    setServers(prev => prev.map(s => 
+      s.id === activeServerId ? { ...s, ...updates } : s
+    ));
+  };
+
+  const updateServerMeta = (server: ServerConfig, updates: ServerMeta) => {
+    if (server.hubNode) {
+      setHubNodeMeta(prev => ({ ...prev, [server.id]: { ...prev[server.id], ...updates } }));
+    } else {
+      setServers(prev => prev.map(s => s.id === server.id ? { ...s, ...updates } : s));
+    }
+  };
+
+  const addTag = () => {
+    const tag = tagInput.trim();
+    const tags = activeServer.tags || [];
+    if (tag && !tags.includes(tag)) updateServerMeta(activeServer, { tags: [...tags, tag] });
+    setTagInput('');
+  };
+
+  // 搜索匹配名称、地址、分组、标签与备注
+  const serverQuery = serverSearch.trim().toLowerCase();
+  const filteredServers = allServers.filter(server => !serverQuery || [
+    server.name, server.url, server.group, server.notes, ...(server.tags || [])
+  ].some(field => field?.toLowerCase().includes(serverQuery)));
+
+  const serverGroups = filteredServers.reduce<Array<{ name: string; servers: ServerConfig[] }>>((groups, server) => {
+    const name = server.group?.trim() || UNGROUPED;
+    const group = groups.find(g => g.name === name);
+    if (group) group.servers.push(server);
+    else groups.push({ name, servers: [server] });
+    return groups;
+  }, []);
+  const knownGroups = [...new Set(allServers.map(s => s.group?.trim()).filter((g): g is string => !!g))];
+
+  const toggleGroup = (name: string) => {
+    setCollapsedGroups(prev => prev.includes(name) ? prev.filter(g => g !== name) : [...prev, name]);
+  };
+
+  // 拖到另一台服务器上方时插入到它之前，并加入它所在的分组
+  const dropServer = (target: ServerConfig) => {
+    const dragged = allServers.find(s => s.id === draggingServerId);
+    setDraggingServerId(null);
+    if (!dragged || dragged.id === target.id) return;
+    const ids = allServers.map(s => s.id).filter(id => id !== dragged.id);
+    ids.splice(ids.indexOf(target.id), 0, dragged.id);
+    setServerOrder(ids);
+    if ((dragged.group?.trim() || '') !== (target.group?.trim() || '')) {
+      updateServerMeta(dragged, { group: target.group });
+    }
+  };
+
+  const formatBytes = (bytes: number) => {
+    if (bytes === 0) return '0 B';
+    const k = 1024;
+    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.min(sizes.length - 1, Math.max(0, Math.floor(Math.log(bytes) / Math.log(k))));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const formatNetValue = (bytes: number, unit: 'Auto' | 'KB/s' | 'MB/s' | 'Mbps') => {
+    if (unit === 'Auto') return formatBytes(bytes) + '/s';
+    if (unit === 'KB/s') return (bytes / 1024).toFixed(2) + ' KB/s';
+    if (unit === 'MB/s') return (bytes / (1024 * 1024)).toFixed(2) + ' MB/s';
+    if (unit === 'Mbps') return ((bytes * 8) / (1000 * 1000)).toFixed(2) + ' Mbps';
+    return formatBytes(bytes) + '/s';
+  };
+
+  const getNetValue = (bytes: number, unit: 'Auto' | 'KB/s' | 'MB/s' | 'Mbps') => {
+    if (unit === 'Auto') return bytes; // For Auto, we keep raw bytes and format at the end
+    if (unit === 'KB/s') return bytes / 1024;
+    if (unit === 'MB/s') return bytes / (1024 * 1024);
+    if (unit === 'Mbps') return (bytes * 8) / (1000 * 1000);
+    return bytes;
+  };
+
+  // SQLite CURRENT_TIMESTAMP values are UTC without a zone suffix
+  const parseDbTime = (timestamp: string) => new Date(timestamp.replace(' ', 'T') + 'Z');
+
+  // datetime-local 输入框使用本地时间 "YYYY-MM-DDTHH:mm"
+  const toDateTimeInput = (ms: number) => {
+    const date = new Date(ms);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+  };
+
+  const applyCustomRange = () => {
+    const from = new Date(customRange.from).getTime();
+    const to = customRange.to ? new Date(customRange.to).getTime() : Date.now();
+    if (Number.isNaN(from) || Number.isNaN(to) || from >= to) return;
+    setHistoryWindow({ from, to });
+  };
+
+  const selectHistoryRange = (range: HistoryRange) => {
+    setHistoryWindow(null);
+    setHistoryRange(range);
+  };
+
+  useEffect(() => {
+    if (historyWindow) setCustomRange({ from: toDateTimeInput(historyWindow.from), to: toDateTimeInput(historyWindow.to) });
+  }, [historyWindow]);
+
+  // 横轴标签随数据跨度变化：一天以内只显示时间，多日显示日期
+  const historySpan = longHistory.length > 1
+    ? parseDbTime(longHistory[longHistory.length - 1].timestamp).getTime() - parseDbTime(longHistory[0].timestamp).getTime()
+    : 0;
+  const formatHistoryTick = (timestamp: string) => {
+    const date = parseDbTime(timestamp);
+    if (historySpan <= 86400000) return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    if (historySpan <= 90 * 86400000) return date.toLocaleString([], { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+    return date.toLocaleDateString([], { year: 'numeric', month: '2-digit', day: '2-digit' });
+  };
+  const formatHistoryLabel = (timestamp: unknown) => parseDbTime(String(timestamp)).toLocaleString();
+
+  // 在历史图表上拖拽框选时间段，松开后按所选窗口重新查询；未拖动时视为单击
+  const historyZoomProps = (onSelectPoint?: (index: number) => void) => ({
+    onMouseDown: (state: MouseHandlerDataParam) => {
+      const index = Number(state?.activeIndex);
+      if (!Number.isNaN(index)) setZoomSelection({ start: index, end: index });
+    },
+    onMouseMove: (state: MouseHandlerDataParam) => {
+      const index = Number(state?.activeIndex);
+      if (!Number.isNaN(index)) setZoomSelection(prev => prev && { ...prev, end: index });
+    },
+    onMouseUp: () => {
+      if (!zoomSelection) return;
+      setZoomSelection(null);
+      const start = Math.min(zoomSelection.start, zoomSelection.end);
+      const end = Math.max(zoomSelection.start, zoomSelection.end);
+      if (start === end) {
+        onSelectPoint?.(start);
+        return;
+      }
+      setHistoryWindow({
+        from: parseDbTime(longHistory[start].timestamp).getTime(),
+        to: parseDbTime(longHistory[end].timestamp).getTime()
+      });
+    }
+  });
+
+  const renderZoomArea = () => zoomSelection && zoomSelection.start !== zoomSelection.end && (
+    <ReferenceArea
+      x1={longHistory[zoomSelection.start]?.timestamp}
+      x2={longHistory[zoomSelection.end]?.timestamp}
+      strokeOpacity={0.3}
+      fill={themeColor}
+      fillOpacity={0.15}
+    />
+  );
+
+  const firingCount = alertRules.filter(r => r.state === 'firing').length;
+
+  const visibleProcesses = (metrics?.processes || [])
+    .filter(p => {
+      const q = processSearch.trim().toLowerCase();
+      if (!q) return true;
+      return p.name.toLowerCase().includes(q) || p.command.toLowerCase().includes(q) || 
+        p.user.toLowerCase().includes(q) || String(p.pid) === q;
+    })
+    .sort((a, b) => {
+      const { key, desc } = processSort;
+      const cmp = typeof a[key] === 'string' 
+        ? String(a[key]).localeCompare(String(b[key])) 
+        : (a[key] as number) - (b[key] as number);
+      return desc ? -cmp : cmp;
+    });
+
+  const toggleProcessSort = (key: ProcessSortKey) => {
+    setProcessSort(prev => prev.key === key 
+      ? { key, desc: !prev.desc } 
+      : { key, desc: key === 'cpu' || key === 'rss' });
+  };
+
+  const formatUptime = (seconds: number) => {
+    const d = Math.floor(seconds / (3600 * 24));
+    const h = Math.floor((seconds % (3600 * 24)) / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = Math.floor(seconds % 60);
+    return `${d}d ${h}h ${m}m ${s}s`;
+  };
+
+  // 数据不符合协议，或对端协议版本与面板不一致时提示
+  const protocolWarning = payloadError
+    ? `收到的数据不符合面板协议 v${PROTOCOL_VERSION}：${payloadError}`
+    : serverHello && serverHello.protocolVersion < PROTOCOL_VERSION
+      ? `后端协议版本 v${serverHello.protocolVersion} 低于面板 v${PROTOCOL_VERSION}，部分功能可能无法使用，请升级后端。`
+      : serverHello && serverHello.protocolVersion > PROTOCOL_VERSION
+        ? `面板协议版本 v${PROTOCOL_VERSION} 低于后端 v${serverHello.protocolVersion}，请更新面板。`
+        : serverHello?.agentProtocolVersion != null && serverHello.agentProtocolVersion < PROTOCOL_VERSION
+          ? `该节点 agent 的协议版本 v${serverHello.agentProtocolVersion} 低于面板 v${PROTOCOL_VERSION}，请升级 agent。`
+          : null;
+
+  // 省略为 0 的单位，例如 1h 5m
+  const formatDuration = (seconds: number) =>
+    formatUptime(seconds).split(' ').filter(part => !/^0\D/.test(part)).join(' ') || '0s';
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        setBgImage(reader.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  return (
+    <div 
       className={cn(
         "min-h-screen flex relative transition-colors duration-300",
         isDarkMode ? "bg-[#0f172a] text-slate-100" : "bg-slate-50 text-slate-900"
@@ -398,6 +1712,19 @@ const App: React.FC = () => {
         <div className="flex-1 overflow-y-auto p-4 space-y-6">
           <div className="space-y-2">
             <div className="text-xs font-bold text-slate-500 uppercase px-2 mb-2">监控视图</div>
+            <button
+              onClick={() => setActiveTab('overview')}
+              className={cn(
+                "w-full flex items-center gap-3 p-3 rounded-lg transition-all",
+                activeTab === 'overview' 
+                  ? "text-white shadow-lg" 
+                  : isDarkMode ? "hover:bg-slate-700 text-slate-400" : "hover:bg-slate-100 text-slate-500"
+              )}
+              style={activeTab === 'overview' ? { backgroundColor: themeColor } : {}}
+            >
+              <LayoutGrid size={18} />
+              <span className="font-medium">全部服务器</span>
+            </button>
             <button
               onClick={() => setActiveTab('dashboard')}
               className={cn(
@@ -424,33 +1751,118 @@ const App: React.FC = () => {
               <Clock size={18} />
               <span className="font-medium">历史数据</span>
             </button>
+            <button
+              onClick={() => setActiveTab('alerts')}
+              className={cn(
+                "w-full flex items-center gap-3 p-3 rounded-lg transition-all",
+                activeTab === 'alerts' 
+                  ? "text-white shadow-lg" 
+                  : isDarkMode ? "hover:bg-slate-700 text-slate-400" : "hover:bg-slate-100 text-slate-500"
+              )}
+              style={activeTab === 'alerts' ? { backgroundColor: themeColor } : {}}
+            >
+              <Bell size={18} />
+              <span className="font-medium">告警中心</span>
+              {firingCount > 0 && (
+                <span className="ml-auto px-2 py-0.5 rounded-full text-[10px] font-black bg-red-500 text-white">{firingCount}</span>
+              )}
+            </button>
+            <button
+              onClick={() => setActiveTab('probes')}
+              className={cn(
+                "w-full flex items-center gap-3 p-3 rounded-lg transition-all",
+                activeTab === 'probes' 
+                  ? "text-white shadow-lg" 
+                  : isDarkMode ? "hover:bg-slate-700 text-slate-400" : "hover:bg-slate-100 text-slate-500"
+              )}
+              style={activeTab === 'probes' ? { backgroundColor: themeColor } : {}}
+            >
+              <Globe size={18} />
+              <span className="font-medium">服务检查</span>
+            </button>
           </div>
 
           <div className="space-y-2">
             <div className="text-xs font-bold text-slate-500 uppercase px-2 mb-2">服务器列表</div>
-            {servers.map(server => (
-              <button
-                key={server.id}
-                onClick={() => setActiveServerId(server.id)}
-                className={cn(
-                  "w-full flex items-center justify-between p-3 rounded-lg transition-all group",
-                  activeServerId === server.id 
-                    ? "text-white shadow-lg border" 
-                    : isDarkMode ? "hover:bg-slate-700 text-slate-400" : "hover:bg-slate-100 text-slate-500"
-                )}
-                style={activeServerId === server.id ? { 
-                  borderColor: `${themeColor}40`,
-                  backgroundColor: isDarkMode ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.02)',
-                  color: isDarkMode ? '#f8fafc' : '#0f172a'
-                } : {}}
-              >
-                <div className="flex items-center gap-3">
-                  <ServerIcon size={18} className={activeServerId === server.id ? "" : "text-slate-500"} style={activeServerId === server.id ? { color: themeColor } : {}} />
-                  <span className="font-medium truncate max-w-[120px]">{server.name}</span>
+            <div className="relative mb-2">
+              <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+              <input
+                type="text"
+                placeholder="搜索名称、标签、备注"
+                className={cn("w-full rounded-lg pl-8 pr-3 py-2 text-sm outline-none border focus:ring-2 transition-all", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                value={serverSearch}
+                onChange={e => setServerSearch(e.target.value)}
+              />
+            </div>
+            {serverGroups.map(group => {
+              // 搜索时展开所有分组，便于看到匹配结果
+              const collapsed = !serverQuery && collapsedGroups.includes(group.name);
+              return (
+                <div key={group.name} className="space-y-2">
+                  {(serverGroups.length > 1 || group.name !== UNGROUPED) && (
+                    <button
+                      onClick={() => toggleGroup(group.name)}
+                      className="w-full flex items-center gap-1 px-2 pt-2 text-xs font-bold text-slate-500 hover:text-slate-400"
+                    >
+                      {collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                      <span className="truncate">{group.name}</span>
+                      <span className="ml-auto font-mono">{group.servers.length}</span>
+                    </button>
+                  )}
+                  {!collapsed && group.servers.map(server => {
+                    const expiresIn = daysUntil(server.expiry);
+                    return (
+                      <button
+                        key={server.id}
+                        draggable
+                        onDragStart={() => setDraggingServerId(server.id)}
+                        onDragEnd={() => setDraggingServerId(null)}
+                        onDragOver={e => e.preventDefault()}
+                        onDrop={() => dropServer(server)}
+                        onClick={() => setActiveServerId(server.id)}
+                        className={cn(
+                          "w-full flex items-center justify-between p-3 rounded-lg transition-all group",
+                          server.hubNode && "pl-7",
+                          activeServerId === server.id 
+                            ? "text-white shadow-lg border" 
+                            : isDarkMode ? "hover:bg-slate-700 text-slate-400" : "hover:bg-slate-100 text-slate-500"
+                        )}
+                        style={activeServerId === server.id ? { 
+                          borderColor: `${themeColor}40`,
+                          backgroundColor: isDarkMode ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.02)',
+                          color: isDarkMode ? '#f8fafc' : '#0f172a'
+                        } : {}}
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          <GripVertical size={14} className="text-slate-600 shrink-0 cursor-grab opacity-0 group-hover:opacity-100 -ml-2 -mr-2" />
+                          <ServerIcon size={18} className={cn("shrink-0", activeServerId === server.id ? "" : "text-slate-500")} style={activeServerId === server.id ? { color: themeColor } : {}} />
+                          <div className="min-w-0 text-left">
+                            <div className="font-medium truncate max-w-[120px]">{server.name}</div>
+                            {((server.tags?.length ?? 0) > 0 || (expiresIn !== null && expiresIn <= 7)) && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {expiresIn !== null && expiresIn <= 7 && (
+                                  <span className="px-1.5 rounded text-[10px] font-bold bg-red-500/10 text-red-500">
+                                    {expiresIn < 0 ? '已到期' : `${expiresIn} 天后到期`}
+                                  </span>
+                                )}
+                                {server.tags?.map(tag => (
+                                  <span key={tag} className={cn("px-1.5 rounded text-[10px] font-bold", isDarkMode ? "bg-slate-700 text-slate-300" : "bg-slate-200 text-slate-600")}>{tag}</span>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                        {activeServerId === server.id && <div className="size-2 rounded-full shrink-0" style={{ backgroundColor: themeColor }} />}
+                      </button>
+                    );
+                  })}
                 </div>
-                {activeServerId === server.id && <div className="size-2 rounded-full" style={{ backgroundColor: themeColor }} />}
-              </button>
-            ))}
+              );
+            })}
+            {filteredServers.length === 0 && (
+              <div className="px-2 py-4 text-xs text-slate-500 text-center">没有匹配的服务器</div>
+            )}
             
             <button 
               onClick={() => setShowAddServer(true)}
@@ -487,6 +1899,19 @@ const App: React.FC = () => {
             <Settings size={18} />
             <span>系统设置</span>
           </button>
+          {authToken && (
+            <button 
+              onClick={logout}
+              className={cn(
+                "w-full flex items-center gap-3 p-3 rounded-lg transition-all",
+                isDarkMode ? "text-slate-400 hover:bg-slate-700" : "text-slate-500 hover:bg-slate-100"
+              )}
+            >
+              <LogOut size={18} />
+              <span>退出登录</span>
+              {authRole === 'viewer' && <span className="ml-auto text-[10px] font-bold uppercase text-slate-500">只读</span>}
+            </button>
+          )}
         </div>
       </aside>
 
@@ -495,7 +1920,9 @@ const App: React.FC = () => {
         <header className="mb-8 flex flex-col md:flex-row md:items-center justify-between gap-4">
           <div>
             <div className="flex items-center gap-3">
-              <h1 className="text-3xl font-bold">{activeTab === 'dashboard' ? activeServer.name : '历史统计数据'}</h1>
+              <h1 className="text-3xl font-bold">
+                {activeTab === 'overview' ? '全部服务器' : activeTab === 'dashboard' ? activeServer.name : activeTab === 'alerts' ? '告警中心' : activeTab === 'probes' ? '服务检查' : '历史统计数据'}
+              </h1>
               {activeTab === 'dashboard' && (
                 <div className={cn(
                   "flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-bold uppercase",
@@ -506,26 +1933,66 @@ const App: React.FC = () => {
                 </div>
               )}
             </div>
-            <p className="text-slate-400 mt-1 font-mono text-sm">{activeServer.url}</p>
+            <p className="text-slate-400 mt-1 font-mono text-sm">
+              {activeTab === 'overview' ? `${onlineCount} / ${allServers.length} 在线` : activeServer.url}
+            </p>
           </div>
           
           <div className="flex items-center gap-4">
+            {activeTab === 'overview' && (
+              <>
+                <div className={cn(
+                  "flex p-1 rounded-xl border transition-colors duration-300",
+                  isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                )}>
+                  {([['all', '全部'], ['online', '在线'], ['offline', '离线']] as const).map(([f, label]) => (
+                    <button
+                      key={f}
+                      onClick={() => setOverviewFilter(f)}
+                      className={cn(
+                        "px-4 py-1.5 rounded-lg text-sm font-bold transition-all",
+                        overviewFilter === f 
+                          ? "text-white shadow-md" 
+                          : isDarkMode ? "text-slate-400 hover:text-slate-200" : "text-slate-500 hover:text-slate-700"
+                      )}
+                      style={overviewFilter === f ? { backgroundColor: themeColor } : {}}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <select
+                  value={overviewSort}
+                  onChange={e => setOverviewSort(e.target.value as typeof overviewSort)}
+                  className={cn(
+                    "px-4 py-2.5 rounded-xl border text-sm font-bold outline-none transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700 text-slate-300" : "bg-white border-slate-200 text-slate-600"
+                  )}
+                >
+                  <option value="status">按状态排序</option>
+                  <option value="name">按名称排序</option>
+                  <option value="cpu">按 CPU 排序</option>
+                  <option value="mem">按内存排序</option>
+                </select>
+              </>
+            )}
+
             {activeTab === 'history' && (
               <div className={cn(
                 "flex p-1 rounded-xl border transition-colors duration-300",
                 isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
               )}>
-                {(['1h', '6h', '24h', '7d'] as const).map((r) => (
+                {HISTORY_RANGES.map((r) => (
                   <button
                     key={r}
-                    onClick={() => setHistoryRange(r)}
+                    onClick={() => selectHistoryRange(r)}
                     className={cn(
                       "px-4 py-1.5 rounded-lg text-sm font-bold transition-all",
-                      historyRange === r 
+                      !historyWindow && historyRange === r 
                         ? "text-white shadow-md" 
                         : isDarkMode ? "text-slate-400 hover:text-slate-200" : "text-slate-500 hover:text-slate-700"
                     )}
-                    style={historyRange === r ? { backgroundColor: themeColor } : {}}
+                    style={!historyWindow && historyRange === r ? { backgroundColor: themeColor } : {}}
                   >
                     {r.toUpperCase()}
                   </button>
@@ -533,6 +2000,57 @@ const App: React.FC = () => {
               </div>
             )}
 
+            {activeTab === 'history' && (
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="datetime-local"
+                  className={cn(
+                    "px-3 py-2 rounded-xl border text-sm font-bold outline-none transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700 text-slate-300" : "bg-white border-slate-200 text-slate-600"
+                  )}
+                  value={customRange.from}
+                  onChange={e => setCustomRange({ ...customRange, from: e.target.value })}
+                />
+                <span className="text-slate-500 font-bold">至</span>
+                <input
+                  type="datetime-local"
+                  className={cn(
+                    "px-3 py-2 rounded-xl border text-sm font-bold outline-none transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700 text-slate-300" : "bg-white border-slate-200 text-slate-600"
+                  )}
+                  value={customRange.to}
+                  onChange={e => setCustomRange({ ...customRange, to: e.target.value })}
+                />
+                <button
+                  onClick={applyCustomRange}
+                  disabled={!customRange.from}
+                  className="px-4 py-2 rounded-xl text-white text-sm font-bold transition-all hover:opacity-90 disabled:opacity-50"
+                  style={{ backgroundColor: themeColor }}
+                >
+                  查询
+                </button>
+                {historyWindow && (
+                  <button
+                    onClick={() => setHistoryWindow(null)}
+                    title="恢复预设时间范围"
+                    className={cn("p-2 rounded-xl transition-all", isDarkMode ? "text-slate-400 hover:bg-slate-700" : "text-slate-500 hover:bg-slate-100")}
+                  >
+                    <X size={16} />
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowExport(!showExport)}
+                  className={cn(
+                    "flex items-center gap-2 px-4 py-2 rounded-xl border text-sm font-bold transition-all",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700 text-slate-300 hover:text-slate-100" : "bg-white border-slate-200 text-slate-600 hover:text-slate-900"
+                  )}
+                >
+                  <Download size={16} />
+                  导出
+                </button>
+              </div>
+            )}
+
             {metrics && activeTab === 'dashboard' && (
               <div 
                 className={cn(
@@ -551,7 +2069,125 @@ const App: React.FC = () => {
           </div>
         </header>
 
-        {activeTab === 'dashboard' ? (
+        {protocolWarning && activeTab !== 'overview' && (
+          <div className="flex items-center gap-3 p-4 mb-8 rounded-2xl border bg-amber-500/10 border-amber-500/30 text-amber-500 text-sm font-bold">
+            <AlertTriangle size={18} className="shrink-0" />
+            <span className="break-all">{protocolWarning}</span>
+          </div>
+        )}
+
+        {authRequired && activeTab !== 'overview' ? (
+          /* Login */
+          <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+            <div 
+              className={cn(
+                "p-8 rounded-2xl border shadow-2xl transition-colors duration-300 w-full max-w-md",
+                isDarkMode ? "bg-slate-800 border-slate-700" : "bg-white border-slate-200"
+              )}
+              style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+            >
+              <Lock className="size-12 mx-auto mb-4" style={{ color: themeColor }} />
+              <h2 className={cn("text-xl font-bold mb-2", isDarkMode ? "text-slate-100" : "text-slate-900")}>需要登录</h2>
+              <p className="text-slate-400 mb-6">请输入 {activeServer.name} 的管理员密码。</p>
+              <form
+                className="space-y-3"
+                onSubmit={e => {
+                  e.preventDefault();
+                  login();
+                }}
+              >
+                <input 
+                  type="password" 
+                  placeholder="管理员密码"
+                  autoFocus
+                  className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                  style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                  value={loginPassword}
+                  onChange={e => setLoginPassword(e.target.value)}
+                />
+                {loginError && <p className="text-xs text-red-400 font-bold">{loginError}</p>}
+                <button 
+                  type="submit"
+                  className="w-full px-6 py-3 rounded-xl font-bold transition-all text-white"
+                  style={{ backgroundColor: themeColor }}
+                >
+                  登录
+                </button>
+              </form>
+            </div>
+          </div>
+        ) : activeTab === 'overview' ? (
+          /* Overview Content */
+          overviewServers.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-[50vh] space-y-4">
+              <ServerIcon className="size-12 text-slate-500 opacity-20" />
+              <p className="text-slate-500 font-bold">没有符合条件的服务器</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4 gap-6">
+              {overviewServers.map(server => {
+                const m = overviewMetrics[server.id];
+                const online = !!overviewStatus[server.id];
+                const { rx, tx } = m ? sumNetwork(m.network, 'all', excludeVirtualIfaces) : { rx: 0, tx: 0 };
+                return (
+                  <button
+                    key={server.id}
+                    onClick={() => {
+                      setActiveServerId(server.id);
+                      setActiveTab('dashboard');
+                    }}
+                    className={cn(
+                      "p-5 rounded-2xl border shadow-xl relative overflow-hidden text-left transition-all hover:scale-[1.01]",
+                      isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200",
+                      !online && "opacity-60"
+                    )}
+                    style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                  >
+                    <div className="absolute top-0 left-0 w-1 h-full" style={{ backgroundColor: online ? themeColor : '#ef4444' }} />
+                    <div className="flex items-center justify-between mb-4">
+                      <div className="min-w-0">
+                        <div className={cn("font-bold truncate", isDarkMode ? "text-slate-100" : "text-slate-900")}>{server.name}</div>
+                        <div className="text-[10px] text-slate-500 font-mono truncate">{server.url}</div>
+                      </div>
+                      <div className={cn(
+                        "flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase shrink-0",
+                        online ? "bg-emerald-500/10 text-emerald-500" : "bg-red-500/10 text-red-500"
+                      )}>
+                        <div className={cn("size-1.5 rounded-full", online ? "bg-emerald-500" : "bg-red-500")} />
+                        {online ? "在线" : "离线"}
+                      </div>
+                    </div>
+                    <div className="space-y-2.5">
+                      {([
+                        ['CPU', m?.cpu.load],
+                        ['RAM', m?.memory.percentage],
+                        ['DISK', m?.disk[0]?.use]
+                      ] as const).map(([label, value]) => (
+                        <div key={label}>
+                          <div className="flex justify-between mb-1">
+                            <span className="text-[10px] font-bold text-slate-500 uppercase">{label}</span>
+                            <span className="text-[10px] font-black" style={{ color: themeColor }}>{value != null ? `${Math.round(value)}%` : '--'}</span>
+                          </div>
+                          <div className={cn("w-full h-1.5 rounded-full overflow-hidden", isDarkMode ? "bg-slate-800" : "bg-slate-100")}>
+                            <div 
+                              className="h-full transition-all duration-700 ease-out"
+                              style={{ width: `${value || 0}%`, backgroundColor: themeColor }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-between mt-4 text-[10px] font-mono font-bold text-slate-500">
+                      <span>↓ {m ? formatNetValue(rx, netUnit) : '--'}</span>
+                      <span>↑ {m ? formatNetValue(tx, netUnit) : '--'}</span>
+                      <span>{m ? formatUptime(m.uptime).split(' ').slice(0, 2).join(' ') : '--'}</span>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )
+        ) : activeTab === 'dashboard' ? (
           /* Dashboard Content */
           <>
             {!metrics && !isConnected ? (
@@ -589,7 +2225,7 @@ const App: React.FC = () => {
                   <h2 className={cn("text-xl font-bold mb-2", isDarkMode ? "text-slate-100" : "text-slate-900")}>正在尝试连接服务器...</h2>
                   <p className="text-slate-400 max-w-xs">请确保后端程序已在 {activeServer.url} 启动并允许跨域请求。</p>
                   <button 
-                    onClick={() => connectToSocket(activeServer.url)}
+                    onClick={() => connectToSocket(activeServer.url, activeServerId)}
                     className="mt-6 px-6 py-2 rounded-lg font-bold transition-all text-white"
                     style={{ backgroundColor: themeColor }}
                   >
@@ -609,8 +2245,9 @@ const App: React.FC = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               {/* CPU Card */}
               <div 
+                onClick={() => setCpuExpanded(!cpuExpanded)}
                 className={cn(
-                  "p-6 rounded-2xl border shadow-xl relative overflow-hidden group transition-colors duration-300",
+                  "p-6 rounded-2xl border shadow-xl relative overflow-hidden group transition-colors duration-300 cursor-pointer",
                   isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
                 )}
                 style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
@@ -622,7 +2259,10 @@ const App: React.FC = () => {
                   </div>
                   <span className="text-3xl font-black" style={{ color: themeColor }}>{Math.round(metrics.cpu.load)}%</span>
                 </div>
-                <h3 className="text-slate-400 font-bold uppercase text-xs tracking-widest">CPU LOAD</h3>
+                <h3 className="text-slate-400 font-bold uppercase text-xs tracking-widest flex items-center gap-1">
+                  CPU LOAD
+                  <ChevronDown size={14} className={cn("transition-transform", cpuExpanded && "rotate-180")} />
+                </h3>
                 <p className={cn("text-sm mt-1 font-medium truncate", isDarkMode ? "text-slate-200" : "text-slate-700")}>{metrics.cpu.brand}</p>
                 <div className={cn("mt-4 w-full h-2 rounded-full overflow-hidden", isDarkMode ? "bg-slate-800" : "bg-slate-100")}>
                   <div 
@@ -729,6 +2369,56 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {/* Expanded CPU Details */}
+            {cpuExpanded && (
+              <div 
+                className={cn(
+                  "p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                  isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                )}
+                style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+              >
+                <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
+                  <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>CPU 详情</h3>
+                  <span className="text-xs font-mono text-slate-500">{metrics.cpu.cores} 核 · 基准 {metrics.cpu.speed} GHz</span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                  {([
+                    [Activity, '平均负载 (1/5/15)', metrics.cpu.loadAvg ? metrics.cpu.loadAvg.map(v => v.toFixed(2)).join(' / ') : '--'],
+                    [Gauge, '当前频率', metrics.cpu.speedCurrent ? `${metrics.cpu.speedCurrent.toFixed(2)} GHz` : '--'],
+                    [Thermometer, '温度', metrics.cpu.temperature ? `${Math.round(metrics.cpu.temperature)} °C` : '不可用'],
+                    [Cpu, '窃取时间 (Steal)', metrics.cpu.steal !== undefined ? `${metrics.cpu.steal.toFixed(1)}%` : '--']
+                  ] as const).map(([Icon, label, value]) => (
+                    <div key={label} className={cn("p-4 rounded-xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                      <div className="flex items-center gap-2 mb-2">
+                        <Icon size={14} className="text-slate-500" />
+                        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{label}</span>
+                      </div>
+                      <div className={cn("font-mono font-bold", isDarkMode ? "text-slate-100" : "text-slate-900")}>{value}</div>
+                    </div>
+                  ))}
+                </div>
+                {metrics.cpu.coresLoad && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-x-6 gap-y-4">
+                    {metrics.cpu.coresLoad.map((load, idx) => (
+                      <div key={idx}>
+                        <div className="flex justify-between mb-1">
+                          <span className="text-[10px] font-bold text-slate-500 uppercase">CPU {idx}</span>
+                          <span className="text-[10px] font-black" style={{ color: themeColor }}>{Math.round(load)}%</span>
+                        </div>
+                        <div className={cn("w-full h-1.5 rounded-full overflow-hidden", isDarkMode ? "bg-slate-800" : "bg-slate-100")}>
+                          <div 
+                            className="h-full transition-all duration-700 ease-out"
+                            style={{ width: `${load}%`, backgroundColor: themeColor }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Charts Section */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               <div 
@@ -739,7 +2429,26 @@ const App: React.FC = () => {
                 style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
               >
                 <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
-                  <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>负载历史趋势</h3>
+                  <div className="flex items-center gap-4">
+                    <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>负载历史趋势</h3>
+                    <div className={cn("flex items-center p-1 rounded-lg border", isDarkMode ? "bg-slate-800 border-slate-700" : "bg-slate-100 border-slate-200")}>
+                      {LIVE_WINDOWS.map(w => (
+                        <button
+                          key={w}
+                          onClick={() => setLiveWindow(w)}
+                          className={cn(
+                            "px-2 py-0.5 text-[10px] font-bold rounded transition-all",
+                            liveWindow === w 
+                              ? "text-white shadow-sm" 
+                              : (isDarkMode ? "text-slate-400 hover:text-slate-200" : "text-slate-500 hover:text-slate-700")
+                          )}
+                          style={liveWindow === w ? { backgroundColor: themeColor } : {}}
+                        >
+                          {w} 分钟
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <div className="flex items-center gap-6">
                     <div className="flex items-center gap-2">
                       <div className="size-3 rounded-full" style={{ backgroundColor: themeColor }} />
@@ -804,136 +2513,1189 @@ const App: React.FC = () => {
                            className="px-2 py-0.5 rounded text-[10px] font-black tracking-tighter"
                            style={{ backgroundColor: `${themeColor}1a`, color: themeColor }}
                          >
-                           {Math.round(disk.use)}%
+                           {disk.use !== null ? `${Math.round(disk.use)}%` : '--'}
                          </span>
                       </div>
                       <div className={cn("w-full h-1.5 rounded-full overflow-hidden", isDarkMode ? "bg-slate-800" : "bg-slate-100")}>
                         <div 
                           className="h-full transition-all duration-1000"
                           style={{ 
-                            width: `${disk.use}%`,
+                            width: `${disk.use ?? 0}%`,
                             backgroundColor: themeColor,
                             boxShadow: `0 0 8px ${themeColor}40`
                           }}
                         />
                       </div>
-                      <div className="flex justify-between mt-1.5">
-                        <span className="text-[10px] font-bold text-slate-500 uppercase">USED: {formatBytes(disk.used)}</span>
-                        <span className="text-[10px] font-bold text-slate-500 uppercase">TOTAL: {formatBytes(disk.size)}</span>
+                      <div className="flex justify-between mt-1.5">
+                        <span className="text-[10px] font-bold text-slate-500 uppercase">USED: {formatBytes(disk.used)}</span>
+                        <span className="text-[10px] font-bold text-slate-500 uppercase">TOTAL: {formatBytes(disk.size)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Network History Chart */}
+              <div 
+                className={cn(
+                  "lg:col-span-3 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                  isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                )}
+                style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+              >
+                <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
+                  <div className="flex items-center gap-4">
+                    <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>网络历史趋势</h3>
+                    <div className={cn("flex items-center p-1 rounded-lg border", isDarkMode ? "bg-slate-800 border-slate-700" : "bg-slate-100 border-slate-200")}>
+                      {(['Auto', 'KB/s', 'MB/s', 'Mbps'] as const).map(unit => (
+                        <button
+                          key={unit}
+                          onClick={() => setNetUnit(unit)}
+                          className={cn(
+                            "px-2 py-0.5 text-[10px] font-bold rounded transition-all",
+                            netUnit === unit 
+                              ? "text-white shadow-sm" 
+                              : (isDarkMode ? "text-slate-400 hover:text-slate-200" : "text-slate-500 hover:text-slate-700")
+                          )}
+                          style={netUnit === unit ? { backgroundColor: themeColor } : {}}
+                        >
+                          {unit}
+                        </button>
+                      ))}
+                    </div>
+                    <select
+                      value={netIface}
+                      onChange={e => setNetIface(e.target.value)}
+                      className={cn(
+                        "px-2 py-1 rounded-lg border text-[10px] font-bold outline-none transition-colors duration-300",
+                        isDarkMode ? "bg-slate-800 border-slate-700 text-slate-300" : "bg-slate-100 border-slate-200 text-slate-600"
+                      )}
+                    >
+                      <option value="all">全部网卡{excludeVirtualIfaces ? ' (不含虚拟)' : ''}</option>
+                      {metrics.network.map(n => (
+                        <option key={n.iface} value={n.iface}>{n.iface}{n.virtual ? ' (虚拟)' : ''}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-6">
+                    <div className="flex items-center gap-2">
+                      <div className="size-3 rounded-full" style={{ backgroundColor: '#10b981' }} />
+                      <span className="text-xs font-bold text-slate-400 uppercase">下载 (RX)</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="size-3 rounded-full" style={{ backgroundColor: '#f59e0b' }} />
+                      <span className="text-xs font-bold text-slate-400 uppercase">上传 (TX)</span>
+                    </div>
+                  </div>
+                </div>
+                <div className="h-[250px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart 
+                      data={history.map(h => {
+                        const { rx, tx } = sumNetwork(h.network, netIface, excludeVirtualIfaces);
+                        return {
+                          ...h,
+                          rx_val: getNetValue(rx, netUnit),
+                          tx_val: getNetValue(tx, netUnit)
+                        };
+                      })}
+                    >
+                      <defs>
+                        <linearGradient id="colorRx" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="5%" stopColor="#10b981" stopOpacity={0.2}/>
+                          <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
+                        </linearGradient>
+                        <linearGradient id="colorTx" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="5%" stopColor="#f59e0b" stopOpacity={0.2}/>
+                          <stop offset="95%" stopColor="#f59e0b" stopOpacity={0}/>
+                        </linearGradient>
+                      </defs>
+                      <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? "#334155" : "#e2e8f0"} vertical={false} />
+                      <XAxis dataKey="time" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} hide />
+                      <YAxis 
+                        stroke="#64748b" 
+                        fontSize={12} 
+                        tickLine={false} 
+                        axisLine={false} 
+                        tickFormatter={(value) => netUnit === 'Auto' ? formatBytes(value).replace('/s', '') : value}
+                      />
+                      <Tooltip 
+                        contentStyle={{ 
+                          backgroundColor: isDarkMode ? '#0f172a' : '#fff', 
+                          border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0', 
+                          borderRadius: '12px', 
+                          boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)',
+                          color: isDarkMode ? '#f1f5f9' : '#0f172a'
+                        }}
+                        itemStyle={{ fontSize: '12px', fontWeight: 'bold' }}
+                        formatter={(value: any) => [
+                          netUnit === 'Auto' ? formatNetValue(value as number, 'Auto') : `${(value as number).toFixed(2)} ${netUnit}`, 
+                          ''
+                        ]}
+                      />
+                      <Area type="monotone" dataKey="rx_val" stroke="#10b981" strokeWidth={3} fillOpacity={1} fill="url(#colorRx)" name="下载 (RX)" animationDuration={500} />
+                      <Area type="monotone" dataKey="tx_val" stroke="#f59e0b" strokeWidth={3} fillOpacity={1} fill="url(#colorTx)" name="上传 (TX)" animationDuration={500} />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              {/* Monthly Bandwidth Card */}
+              {bandwidth && (() => {
+                const usedPercent = bandwidth.quota > 0 ? Math.min(100, bandwidth.used / bandwidth.quota * 100) : 0;
+                const projectedPercent = bandwidth.quota > 0 ? Math.min(100, bandwidth.projected / bandwidth.quota * 100) : 0;
+                const overQuota = bandwidth.quota > 0 && bandwidth.projected > bandwidth.quota;
+                const formatDay = (iso: string) => new Date(iso).toLocaleDateString([], { month: '2-digit', day: '2-digit' });
+                return (
+                  <div 
+                    className={cn(
+                      "lg:col-span-3 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                      isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                    )}
+                    style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                  >
+                    <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
+                      <div className="flex items-center gap-4">
+                        <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>本月流量</h3>
+                        <span className="px-2 py-0.5 rounded text-[10px] font-black" style={{ backgroundColor: `${themeColor}1a`, color: themeColor }}>
+                          {BANDWIDTH_MODE_LABELS[bandwidth.mode]}
+                        </span>
+                      </div>
+                      <span className="text-xs font-bold text-slate-500">
+                        计费周期 {formatDay(bandwidth.periodStart)} - {formatDay(bandwidth.periodEnd)}（每月 {bandwidth.resetDay} 日重置）
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                      {([
+                        ['已用', formatBytes(bandwidth.used)],
+                        ['剩余', bandwidth.remaining !== null ? formatBytes(bandwidth.remaining) : '不限'],
+                        ['预计月底', bandwidth.projectionReliable ? formatBytes(bandwidth.projected) : '数据不足'],
+                        ['配额', bandwidth.quota > 0 ? formatBytes(bandwidth.quota) : '未设置']
+                      ] as const).map(([label, value]) => (
+                        <div key={label} className={cn("p-4 rounded-xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">{label}</p>
+                          <p className={cn("text-lg font-black font-mono", label === '预计月底' && overQuota ? "text-red-500" : (isDarkMode ? "text-slate-100" : "text-slate-900"))}>{value}</p>
+                        </div>
+                      ))}
+                    </div>
+                    {bandwidth.quota > 0 && (
+                      <div className={cn("relative w-full h-2 rounded-full overflow-hidden mb-6", isDarkMode ? "bg-slate-800" : "bg-slate-100")}>
+                        {bandwidth.projectionReliable && (
+                          <div className="absolute inset-y-0 left-0 opacity-30" style={{ width: `${projectedPercent}%`, backgroundColor: overQuota ? '#ef4444' : themeColor }} />
+                        )}
+                        <div 
+                          className="absolute inset-y-0 left-0 transition-all duration-1000"
+                          style={{ width: `${usedPercent}%`, backgroundColor: overQuota ? '#ef4444' : themeColor }}
+                        />
+                      </div>
+                    )}
+                    <div className="flex flex-wrap gap-x-8 gap-y-2 text-[10px] font-bold text-slate-500 uppercase">
+                      <span>↓ 入站 {formatBytes(bandwidth.rx)}</span>
+                      <span>↑ 出站 {formatBytes(bandwidth.tx)}</span>
+                      {bandwidth.interfaces.map(i => (
+                        <span key={i.iface} className="font-mono normal-case">
+                          {i.iface}{i.virtual ? ' (虚拟)' : ''}: ↓{formatBytes(i.rx)} ↑{formatBytes(i.tx)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })()}
+
+              {/* Availability */}
+              {uptime && (
+                <div 
+                  className={cn(
+                    "lg:col-span-3 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                  )}
+                  style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                >
+                  <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
+                    <div className="flex items-center gap-4">
+                      <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>可用性</h3>
+                      <span className="text-xs font-bold text-slate-500">
+                        自 {new Date(uptime.trackingSince).toLocaleDateString()} 起记录
+                        {uptime.bootTime && ` · 本次启动于 ${new Date(uptime.bootTime).toLocaleString()}`}
+                      </span>
+                    </div>
+                    <a
+                      href={slaReportUrl}
+                      download
+                      className={cn("flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all", isDarkMode ? "bg-slate-800 text-slate-300 hover:bg-slate-700" : "bg-slate-100 text-slate-600 hover:bg-slate-200")}
+                    >
+                      <Download size={14} />
+                      SLA 报告 (30 天)
+                    </a>
+                  </div>
+                  <div className="grid grid-cols-3 gap-4 mb-6">
+                    {([
+                      ['24 小时', uptime.summary.day],
+                      ['7 天', uptime.summary.week],
+                      ['30 天', uptime.summary.month]
+                    ] as const).map(([label, item]) => (
+                      <div key={label} className={cn("p-4 rounded-xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">{label}</p>
+                        <p className="text-lg font-black font-mono" style={{ color: availabilityColor(item.availability) }}>
+                          {item.availability !== null ? `${item.availability.toFixed(3)}%` : '--'}
+                        </p>
+                        <p className="text-[10px] font-bold text-slate-500">
+                          {item.outages} 次中断 · 停机 {formatDuration(item.downtime)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-[2px] h-8 mb-2">
+                    {uptime.daily.map(day => (
+                      <div
+                        key={day.date}
+                        className="flex-1 rounded-sm"
+                        style={{ backgroundColor: availabilityColor(day.availability), opacity: day.availability === null ? 0.3 : 1 }}
+                        title={day.availability !== null
+                          ? `${day.date}: ${day.availability.toFixed(3)}%${day.outages > 0 ? `，${day.outages} 次中断` : ''}`
+                          : `${day.date}: 无数据`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex justify-between text-[10px] font-bold text-slate-500 mb-6">
+                    <span>{uptime.daily.length} 天前</span>
+                    <span>今天</span>
+                  </div>
+                  {uptime.outages.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">最近中断</p>
+                      {uptime.outages.slice(0, 5).map(outage => (
+                        <div key={outage.id} className={cn("flex items-center justify-between p-3 rounded-xl border text-xs", isDarkMode ? "bg-slate-800/30 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                          <div className="flex items-center gap-3">
+                            <span className={cn("px-2 py-0.5 rounded font-black", outage.reason === 'reboot' ? "bg-amber-500/10 text-amber-500" : "bg-red-500/10 text-red-500")}>
+                              {outage.reason === 'reboot' ? '重启' : '离线'}
+                            </span>
+                            <span className={cn("font-mono", isDarkMode ? "text-slate-300" : "text-slate-600")}>
+                              {new Date(outage.start).toLocaleString()} - {outage.end ? new Date(outage.end).toLocaleString() : '至今'}
+                            </span>
+                          </div>
+                          <span className="font-mono font-bold text-slate-500">{formatDuration(outage.duration)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Disk I/O Chart */}
+              {metrics.diskIO && metrics.diskIO.devices.length > 0 && (
+                <div 
+                  className={cn(
+                    "lg:col-span-3 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                  )}
+                  style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                >
+                  <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
+                    <div className="flex items-center gap-4">
+                      <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>磁盘 I/O 趋势</h3>
+                      {metrics.diskIO.iowait !== null && (
+                        <span className="px-2 py-0.5 rounded text-[10px] font-black" style={{ backgroundColor: `${themeColor}1a`, color: themeColor }}>
+                          IOWAIT {metrics.diskIO.iowait.toFixed(1)}%
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-6">
+                      <div className="flex items-center gap-2">
+                        <div className="size-3 rounded-full" style={{ backgroundColor: '#6366f1' }} />
+                        <span className="text-xs font-bold text-slate-400 uppercase">读取</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="size-3 rounded-full" style={{ backgroundColor: '#ec4899' }} />
+                        <span className="text-xs font-bold text-slate-400 uppercase">写入</span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                    <div className="lg:col-span-2 h-[220px] w-full">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <AreaChart data={history}>
+                          <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? "#334155" : "#e2e8f0"} vertical={false} />
+                          <XAxis dataKey="time" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} hide />
+                          <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => formatBytes(value)} />
+                          <Tooltip 
+                            contentStyle={{ 
+                              backgroundColor: isDarkMode ? '#0f172a' : '#fff', 
+                              border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0', 
+                              borderRadius: '12px',
+                              color: isDarkMode ? '#f1f5f9' : '#0f172a'
+                            }}
+                            formatter={(value) => [`${formatBytes(value as number)}/s`, '']}
+                          />
+                          <Area type="monotone" dataKey="diskRead" stroke="#6366f1" strokeWidth={3} fillOpacity={0.15} fill="#6366f1" name="读取" animationDuration={500} />
+                          <Area type="monotone" dataKey="diskWrite" stroke="#ec4899" strokeWidth={3} fillOpacity={0.15} fill="#ec4899" name="写入" animationDuration={500} />
+                        </AreaChart>
+                      </ResponsiveContainer>
+                    </div>
+                    <div className="space-y-4">
+                      {metrics.diskIO.devices.map(dev => (
+                        <div key={dev.device} className={cn("p-4 rounded-xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                          <div className="flex justify-between items-center mb-2">
+                            <span className={cn("text-xs font-bold font-mono", isDarkMode ? "text-slate-200" : "text-slate-700")}>{dev.device}</span>
+                            <span className="px-2 py-0.5 rounded text-[10px] font-black" style={{ backgroundColor: `${themeColor}1a`, color: themeColor }}>
+                              {Math.round(dev.util)}% BUSY
+                            </span>
+                          </div>
+                          <div className="grid grid-cols-2 gap-1 text-[10px] font-bold text-slate-500 uppercase">
+                            <span>R: {formatBytes(dev.read_sec)}/s</span>
+                            <span>W: {formatBytes(dev.write_sec)}/s</span>
+                            <span>IOPS: {Math.round(dev.read_iops + dev.write_iops)}</span>
+                            <span>AWAIT: {dev.await.toFixed(1)} ms</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Process Table */}
+              {metrics.processes && (
+                <div 
+                  className={cn(
+                    "lg:col-span-3 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                  )}
+                  style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                >
+                  <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
+                    <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>进程列表</h3>
+                    <div className={cn("flex items-center gap-2 px-3 py-2 rounded-xl border", isDarkMode ? "bg-[#0f172a] border-slate-700" : "bg-white border-slate-200")}>
+                      <Search size={16} className="text-slate-500" />
+                      <input 
+                        type="text" 
+                        placeholder="搜索进程名 / 命令 / 用户 / PID"
+                        className={cn("bg-transparent outline-none text-sm w-64", isDarkMode ? "text-slate-100" : "text-slate-900")}
+                        value={processSearch}
+                        onChange={e => setProcessSearch(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="max-h-[400px] overflow-y-auto custom-scrollbar">
+                    <table className="w-full text-sm">
+                      <thead className={cn("sticky top-0", isDarkMode ? "bg-[#1e293b]" : "bg-white")}>
+                        <tr className="text-left text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                          {([['pid', 'PID'], ['name', '进程'], ['user', '用户'], ['cpu', 'CPU%'], ['rss', '内存 (RSS)']] as const).map(([key, label]) => (
+                            <th key={key} className="py-2 pr-4 cursor-pointer select-none" onClick={() => toggleProcessSort(key)}>
+                              <span style={processSort.key === key ? { color: themeColor } : {}}>
+                                {label}{processSort.key === key ? (processSort.desc ? ' ↓' : ' ↑') : ''}
+                              </span>
+                            </th>
+                          ))}
+                          <th className="py-2">命令行</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {visibleProcesses.map(p => (
+                          <tr key={p.pid} className={cn("border-t", isDarkMode ? "border-slate-700/50" : "border-slate-100")}>
+                            <td className="py-2 pr-4 font-mono text-xs text-slate-500">{p.pid}</td>
+                            <td className={cn("py-2 pr-4 font-bold truncate max-w-[160px]", isDarkMode ? "text-slate-200" : "text-slate-700")}>{p.name}</td>
+                            <td className="py-2 pr-4 text-xs text-slate-500">{p.user}</td>
+                            <td className="py-2 pr-4 font-mono font-bold" style={{ color: themeColor }}>{p.cpu.toFixed(1)}</td>
+                            <td className="py-2 pr-4 font-mono text-xs">{formatBytes(p.rss)}</td>
+                            <td className="py-2 font-mono text-[10px] text-slate-500 truncate max-w-[360px]" title={p.command}>{p.command}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {visibleProcesses.length === 0 && (
+                      <p className="text-slate-500 text-sm font-bold text-center py-8">没有匹配的进程</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* systemd Services */}
+              {metrics.services && metrics.services.length > 0 && (
+                <div 
+                  className={cn(
+                    "lg:col-span-3 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                  )}
+                  style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                >
+                  <div className="flex items-center justify-between mb-8">
+                    <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>系统服务</h3>
+                    <span className="text-xs font-bold text-slate-500">
+                      {metrics.services.filter(svc => svc.state === 'failed').length > 0
+                        ? <span className="text-red-500">{metrics.services.filter(svc => svc.state === 'failed').length} 个服务失败</span>
+                        : '全部正常'}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                    <div className="lg:col-span-2 overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                            <th className="py-2 pr-4">服务</th>
+                            <th className="py-2 pr-4">状态</th>
+                            <th className="py-2 pr-4">重启次数</th>
+                            <th className="py-2 pr-4">状态持续</th>
+                            <th className="py-2"></th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {metrics.services.map(svc => (
+                            <tr key={svc.unit} className={cn("border-t", isDarkMode ? "border-slate-700/50" : "border-slate-100")}>
+                              <td className="py-2 pr-4" title={svc.description}>
+                                <span className={cn("font-bold", isDarkMode ? "text-slate-200" : "text-slate-700")}>{svc.unit}</span>
+                                {!svc.loaded && <span className="ml-2 text-[10px] font-bold text-amber-500">未找到</span>}
+                              </td>
+                              <td className="py-2 pr-4 text-xs font-bold">
+                                <span className={cn(
+                                  svc.state === 'active' ? "text-green-500" : svc.state === 'failed' ? "text-red-500" : svc.state.endsWith('ing') ? "text-amber-500" : "text-slate-500"
+                                )}>
+                                  {svc.state}
+                                </span>
+                                <span className="text-slate-500"> ({svc.subState})</span>
+                              </td>
+                              <td className={cn("py-2 pr-4 font-mono text-xs font-bold", svc.restarts ? "text-amber-500" : "text-slate-500")}>{svc.restarts ?? '--'}</td>
+                              <td className="py-2 pr-4 font-mono text-xs text-slate-500">
+                                {svc.since ? formatDuration(Math.max(0, (Date.now() - new Date(svc.since).getTime()) / 1000)) : '--'}
+                              </td>
+                              <td className="py-2 text-right">
+                                {authRole === 'admin' && !activeServer.hubNode && (
+                                  <button
+                                    onClick={() => journal?.unit === svc.unit ? setJournal(null) : fetchJournal(svc.unit)}
+                                    className={cn("px-3 py-1 rounded-lg text-[10px] font-bold transition-all", isDarkMode ? "bg-slate-700 text-slate-300 hover:bg-slate-600" : "bg-slate-100 text-slate-600 hover:bg-slate-200")}
+                                    style={journal?.unit === svc.unit ? { backgroundColor: themeColor, color: '#fff' } : {}}
+                                  >
+                                    日志
+                                  </button>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <div>
+                      <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3">近 7 天故障事件</p>
+                      {serviceEvents.length === 0 ? (
+                        <p className="text-slate-500 text-sm font-bold py-4">暂无故障记录</p>
+                      ) : (
+                        <div className="space-y-2 max-h-[240px] overflow-y-auto custom-scrollbar">
+                          {serviceEvents.map((event, index) => (
+                            <div key={index} className="flex items-center justify-between gap-2 text-xs">
+                              <span className={cn("font-bold truncate", event.state === 'failed' ? "text-red-500" : "text-green-500")}>
+                                {event.unit} {event.state === 'failed' ? '失败' : `恢复 (${event.state})`}
+                              </span>
+                              <span className="font-mono text-slate-500 shrink-0">{parseDbTime(event.timestamp).toLocaleString()}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  {journal && (
+                    <div className="mt-6">
+                      <div className="flex items-center justify-between mb-2">
+                        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{journal.unit} · 最近 {journal.lines.length} 行日志</p>
+                        <button onClick={() => fetchJournal(journal.unit)} className="text-slate-500 hover:text-slate-300 transition-all">
+                          <RefreshCw size={14} />
+                        </button>
+                      </div>
+                      <pre className={cn(
+                        "max-h-[320px] overflow-auto custom-scrollbar p-4 rounded-xl text-[11px] font-mono leading-relaxed whitespace-pre-wrap break-all",
+                        isDarkMode ? "bg-[#0f172a] text-slate-300" : "bg-slate-50 text-slate-700"
+                      )}>
+                        {journal.lines.length > 0 ? journal.lines.join('\n') : '没有日志'}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Container Table */}
+              {metrics.containers && (
+                <div 
+                  className={cn(
+                    "lg:col-span-3 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                  )}
+                  style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                >
+                  <div className="flex items-center justify-between mb-8">
+                    <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>Docker 容器</h3>
+                    <span className="text-xs font-bold text-slate-500">
+                      {metrics.containers.filter(c => c.state === 'running').length} / {metrics.containers.length} 运行中 · 点击查看 24 小时历史
+                    </span>
+                  </div>
+                  <div className="max-h-[400px] overflow-y-auto custom-scrollbar">
+                    <table className="w-full text-sm">
+                      <thead className={cn("sticky top-0", isDarkMode ? "bg-[#1e293b]" : "bg-white")}>
+                        <tr className="text-left text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                          <th className="py-2 pr-4">容器</th>
+                          <th className="py-2 pr-4">镜像</th>
+                          <th className="py-2 pr-4">状态</th>
+                          <th className="py-2 pr-4">CPU%</th>
+                          <th className="py-2 pr-4">内存</th>
+                          <th className="py-2 pr-4">网络 ↓ / ↑</th>
+                          <th className="py-2">重启次数</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {metrics.containers.map(c => (
+                          <tr 
+                            key={c.id}
+                            onClick={() => setSelectedContainer(selectedContainer === c.name ? null : c.name)}
+                            className={cn("border-t cursor-pointer transition-colors", isDarkMode ? "border-slate-700/50 hover:bg-slate-700/30" : "border-slate-100 hover:bg-slate-50")}
+                            style={selectedContainer === c.name ? { backgroundColor: `${themeColor}1a` } : {}}
+                          >
+                            <td className={cn("py-2 pr-4 font-bold truncate max-w-[180px]", isDarkMode ? "text-slate-200" : "text-slate-700")} title={c.id}>{c.name}</td>
+                            <td className="py-2 pr-4 font-mono text-xs text-slate-500 truncate max-w-[220px]" title={c.image}>{c.image}</td>
+                            <td className="py-2 pr-4 text-xs font-bold" title={c.status}>
+                              <span className={cn(c.state === 'running' ? "text-green-500" : c.state === 'restarting' ? "text-amber-500" : "text-slate-500")}>{c.state}</span>
+                            </td>
+                            <td className="py-2 pr-4 font-mono font-bold" style={{ color: themeColor }}>{c.cpu !== null ? c.cpu.toFixed(1) : '--'}</td>
+                            <td className="py-2 pr-4 font-mono text-xs">
+                              {c.mem !== null ? formatBytes(c.mem) : '--'}
+                              {c.mem !== null && c.memLimit ? <span className="text-slate-500"> / {formatBytes(c.memLimit)}</span> : null}
+                            </td>
+                            <td className="py-2 pr-4 font-mono text-xs">
+                              {c.rx_sec !== null && c.tx_sec !== null ? `${formatBytes(c.rx_sec)}/s / ${formatBytes(c.tx_sec)}/s` : '--'}
+                            </td>
+                            <td className={cn("py-2 font-mono text-xs font-bold", c.restartCount > 0 ? "text-amber-500" : "text-slate-500")}>{c.restartCount}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {metrics.containers.length === 0 && (
+                      <p className="text-slate-500 text-sm font-bold text-center py-8">没有容器</p>
+                    )}
+                  </div>
+                  {selectedContainer !== null && (
+                    <div className="mt-6">
+                      <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">{selectedContainer} · 近 24 小时</p>
+                      {containerHistory.length === 0 ? (
+                        <p className="text-slate-500 text-sm font-bold text-center py-8">暂无历史数据</p>
+                      ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          {([
+                            { key: 'cpu', name: 'CPU', color: themeColor, format: (v: number) => `${v.toFixed(1)}%` },
+                            { key: 'mem', name: '内存', color: '#8b5cf6', format: formatBytes }
+                          ] as const).map(({ key, name, color, format }) => (
+                            <div key={key} className="h-[180px]">
+                              <ResponsiveContainer width="100%" height="100%">
+                                <AreaChart data={containerHistory}>
+                                  <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? "#334155" : "#e2e8f0"} vertical={false} />
+                                  <XAxis dataKey="timestamp" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(ts: string) => parseDbTime(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} />
+                                  <YAxis stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} width={70} tickFormatter={(value: number) => format(value)} />
+                                  <Tooltip 
+                                    contentStyle={{ 
+                                      backgroundColor: isDarkMode ? '#0f172a' : '#fff', 
+                                      border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0', 
+                                      borderRadius: '12px', 
+                                      color: isDarkMode ? '#f1f5f9' : '#0f172a'
+                                    }}
+                                    itemStyle={{ fontSize: '12px', fontWeight: 'bold' }}
+                                    labelFormatter={formatHistoryLabel}
+                                    formatter={(value) => format(Number(value))}
+                                  />
+                                  <Area type="monotone" dataKey={key} name={name} stroke={color} strokeWidth={2} fill={color} fillOpacity={0.1} isAnimationActive={false} />
+                                </AreaChart>
+                              </ResponsiveContainer>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </>
+    ) : activeTab === 'alerts' ? (
+      /* Alerts Content */
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div 
+          className={cn(
+            "lg:col-span-2 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+            isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+          )}
+          style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+        >
+          <h3 className={cn("text-xl font-black tracking-tight mb-8", isDarkMode ? "text-slate-100" : "text-slate-900")}>告警规则</h3>
+
+          <div className={cn("grid grid-cols-1 md:grid-cols-3 gap-4 mb-8 p-6 rounded-2xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">规则名称</label>
+              <input 
+                type="text" 
+                placeholder="例如: CPU 持续过高"
+                className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                value={newRule.name}
+                onChange={e => setNewRule({ ...newRule, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">监控指标</label>
+              <select
+                className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                value={newRule.metric}
+                onChange={e => setNewRule({ ...newRule, metric: e.target.value as AlertMetric })}
+              >
+                {(Object.keys(ALERT_METRIC_LABELS) as AlertMetric[]).map(m => (
+                  <option key={m} value={m}>{ALERT_METRIC_LABELS[m]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">目标 (可选)</label>
+              <input 
+                type="text" 
+                placeholder={newRule.metric === 'disk' ? '挂载点，例如 /' : newRule.metric.startsWith('net') ? '网卡，例如 eth0' : newRule.metric.startsWith('probe') ? '检查名称，留空为全部' : '不适用'}
+                disabled={newRule.metric === 'cpu' || newRule.metric === 'mem'}
+                className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                value={newRule.target}
+                onChange={e => setNewRule({ ...newRule, target: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">条件</label>
+              <div className="flex gap-2">
+                <select
+                  className={cn("rounded-xl px-3 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                  value={newRule.operator}
+                  onChange={e => setNewRule({ ...newRule, operator: e.target.value as '>' | '<' })}
+                >
+                  <option value=">">&gt;</option>
+                  <option value="<">&lt;</option>
+                </select>
+                <input 
+                  type="number" 
+                  className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                  value={newRule.threshold}
+                  onChange={e => setNewRule({ ...newRule, threshold: parseFloat(e.target.value) })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">持续时间 (分钟)</label>
+              <input 
+                type="number" 
+                min="0"
+                className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                value={newRule.duration}
+                onChange={e => setNewRule({ ...newRule, duration: parseFloat(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">恢复回差</label>
+              <input 
+                type="number" 
+                min="0"
+                className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                value={newRule.hysteresis}
+                onChange={e => setNewRule({ ...newRule, hysteresis: parseFloat(e.target.value) })}
+              />
+            </div>
+            {ruleError && <p className="md:col-span-3 text-xs text-red-400 font-bold px-1">{ruleError}</p>}
+            <button 
+              onClick={createRule}
+              className="md:col-span-3 w-full text-white font-black py-3 rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg"
+              style={{ backgroundColor: themeColor, boxShadow: `0 10px 15px -3px ${themeColor}33` }}
+            >
+              <Plus size={20} />
+              添加规则
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            {alertRules.length === 0 && (
+              <p className="text-slate-500 text-sm font-bold text-center py-8">暂无告警规则</p>
+            )}
+            {alertRules.map(rule => (
+              <div key={rule.id} className={cn("flex items-center justify-between p-4 rounded-2xl border transition-all", isDarkMode ? "bg-slate-800/30 border-slate-700" : "bg-slate-50 border-slate-200", !rule.enabled && "opacity-50")}>
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className={cn(
+                    "size-2.5 rounded-full shrink-0",
+                    rule.state === 'firing' ? "bg-red-500 animate-pulse" : rule.state === 'pending' ? "bg-amber-500" : "bg-emerald-500"
+                  )} />
+                  <div className="min-w-0">
+                    <div className={cn("font-bold truncate", isDarkMode ? "text-slate-100" : "text-slate-900")}>{rule.name}</div>
+                    <div className="text-xs text-slate-500 font-mono">
+                      {ALERT_METRIC_LABELS[rule.metric]}{rule.target ? ` [${rule.target}]` : ''} {rule.operator} {rule.threshold}
+                      {rule.duration > 0 ? ` 持续 ${Math.round(rule.duration / 60 * 10) / 10} 分钟` : ''}
+                      {rule.hysteresis > 0 ? ` / 回差 ${rule.hysteresis}` : ''}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button 
+                    onClick={() => toggleRule(rule)}
+                    title={rule.enabled ? '停用' : '启用'}
+                    className={cn("p-2.5 rounded-xl transition-all", isDarkMode ? "text-slate-400 hover:bg-slate-700" : "text-slate-500 hover:bg-slate-200")}
+                  >
+                    {rule.enabled ? <Bell size={18} /> : <BellOff size={18} />}
+                  </button>
+                  <button 
+                    onClick={() => deleteRule(rule.id)}
+                    className="p-2.5 text-slate-500 hover:text-red-500 hover:bg-red-500/10 rounded-xl transition-all"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div 
+          className={cn(
+            "p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+            isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+          )}
+          style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+        >
+          <div className="flex justify-between items-center mb-8">
+            <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>告警时间线</h3>
+            <button onClick={fetchAlerts} className={cn("p-2 rounded-xl transition-all", isDarkMode ? "text-slate-400 hover:bg-slate-700" : "text-slate-500 hover:bg-slate-100")}>
+              <RefreshCw size={16} />
+            </button>
+          </div>
+          <div className="space-y-4 max-h-[600px] overflow-y-auto pr-2 custom-scrollbar">
+            {alertEvents.length === 0 && (
+              <p className="text-slate-500 text-sm font-bold text-center py-8">暂无告警记录</p>
+            )}
+            {alertEvents.map(event => (
+              <div key={event.id} className="flex gap-3">
+                <div className={cn("w-1 rounded-full shrink-0", event.state === 'firing' ? "bg-red-500" : "bg-emerald-500")} />
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={cn(
+                      "px-1.5 py-0.5 rounded text-[10px] font-black uppercase",
+                      event.state === 'firing' ? "bg-red-500/10 text-red-500" : "bg-emerald-500/10 text-emerald-500"
+                    )}>
+                      {event.state === 'firing' ? '触发' : '恢复'}
+                    </span>
+                    <span className={cn("text-sm font-bold truncate", isDarkMode ? "text-slate-200" : "text-slate-700")}>{event.rule_name}</span>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">{event.message}</p>
+                  <p className="text-[10px] text-slate-500 font-mono mt-0.5">{parseDbTime(event.timestamp).toLocaleString()}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    ) : activeTab === 'probes' ? (
+      /* Probes Content */
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div 
+          className={cn(
+            "lg:col-span-2 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+            isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+          )}
+          style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+        >
+          <div className="flex justify-between items-center mb-8">
+            <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>服务检查</h3>
+            <button onClick={fetchProbes} className={cn("p-2 rounded-xl transition-all", isDarkMode ? "text-slate-400 hover:bg-slate-700" : "text-slate-500 hover:bg-slate-100")}>
+              <RefreshCw size={16} />
+            </button>
+          </div>
+          <div className="space-y-3">
+            {probes.length === 0 && (
+              <p className="text-slate-500 text-sm font-bold text-center py-8">暂无服务检查</p>
+            )}
+            {probes.map(probe => (
+              <div key={probe.id}>
+                <div 
+                  onClick={() => setSelectedProbeId(selectedProbeId === probe.id ? null : probe.id)}
+                  className={cn(
+                    "flex items-center justify-between p-4 rounded-2xl border transition-all cursor-pointer",
+                    isDarkMode ? "bg-slate-800/30 border-slate-700 hover:border-slate-500" : "bg-slate-50 border-slate-200 hover:border-slate-300",
+                    !probe.enabled && "opacity-50"
+                  )}
+                  style={selectedProbeId === probe.id ? { borderColor: themeColor } : {}}
+                >
+                  <div className="flex items-center gap-4 min-w-0">
+                    <div className={cn(
+                      "size-2.5 rounded-full shrink-0",
+                      !probe.last ? "bg-slate-500" : probe.last.success ? "bg-emerald-500" : "bg-red-500 animate-pulse"
+                    )} />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className={cn("font-bold truncate", isDarkMode ? "text-slate-100" : "text-slate-900")}>{probe.name}</span>
+                        <span className="px-1.5 py-0.5 rounded text-[10px] font-black" style={{ backgroundColor: `${themeColor}1a`, color: themeColor }}>
+                          {PROBE_TYPES[probe.type]?.label}
+                        </span>
+                      </div>
+                      <div className="text-xs text-slate-500 font-mono truncate">
+                        {probe.last ? `${probe.last.message} · ${parseDbTime(probe.last.timestamp).toLocaleTimeString()}` : '等待首次检查'}
                       </div>
                     </div>
-                  ))}
+                  </div>
+                  <div className="flex items-center gap-4 shrink-0">
+                    <div className="text-right hidden md:block">
+                      <div className={cn("text-sm font-black font-mono", isDarkMode ? "text-slate-100" : "text-slate-900")}>
+                        {probe.last ? `${Math.round(probe.last.latency)} ms` : '--'}
+                      </div>
+                      <div className="text-[10px] font-bold text-slate-500">
+                        24h 成功率 {probe.successRate !== null ? `${probe.successRate.toFixed(1)}%` : '--'}
+                      </div>
+                    </div>
+                    {authRole === 'admin' && (
+                      <div className="flex items-center gap-1" onClick={e => e.stopPropagation()}>
+                        <button 
+                          onClick={() => runProbeNow(probe.id)}
+                          title="立即检查"
+                          className={cn("p-2.5 rounded-xl transition-all", isDarkMode ? "text-slate-400 hover:bg-slate-700" : "text-slate-500 hover:bg-slate-200")}
+                        >
+                          <Play size={18} />
+                        </button>
+                        <button 
+                          onClick={() => toggleProbe(probe)}
+                          title={probe.enabled ? '停用' : '启用'}
+                          className={cn("p-2.5 rounded-xl transition-all", isDarkMode ? "text-slate-400 hover:bg-slate-700" : "text-slate-500 hover:bg-slate-200")}
+                        >
+                          {probe.enabled ? <Bell size={18} /> : <BellOff size={18} />}
+                        </button>
+                        <button 
+                          onClick={() => deleteProbe(probe.id)}
+                          className="p-2.5 text-slate-500 hover:text-red-500 hover:bg-red-500/10 rounded-xl transition-all"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      </div>
+                    )}
+                  </div>
                 </div>
+                {selectedProbeId === probe.id && (
+                  <div className="h-[200px] w-full mt-4">
+                    {probeHistory.length === 0 ? (
+                      <p className="text-slate-500 text-sm font-bold text-center py-8">暂无历史数据</p>
+                    ) : (
+                      <ResponsiveContainer width="100%" height="100%">
+                        <AreaChart data={probeHistory}>
+                          <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? "#334155" : "#e2e8f0"} vertical={false} />
+                          <XAxis dataKey="timestamp" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(ts: string) => parseDbTime(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} />
+                          <YAxis yAxisId="latency" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} unit="ms" />
+                          <YAxis yAxisId="rate" orientation="right" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} unit="%" domain={[0, 100]} />
+                          <Tooltip 
+                            contentStyle={{ 
+                              backgroundColor: isDarkMode ? '#0f172a' : '#fff', 
+                              border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0', 
+                              borderRadius: '12px', 
+                              color: isDarkMode ? '#f1f5f9' : '#0f172a'
+                            }}
+                            itemStyle={{ fontSize: '12px', fontWeight: 'bold' }}
+                            labelFormatter={formatHistoryLabel}
+                            formatter={(value, name) => name === '成功率' ? `${Number(value).toFixed(1)}%` : `${Math.round(Number(value))} ms`}
+                          />
+                          <Area yAxisId="latency" type="monotone" dataKey="latency" stroke={themeColor} strokeWidth={2} fill={themeColor} fillOpacity={0.1} name="延迟" connectNulls={false} isAnimationActive={false} />
+                          <Area yAxisId="rate" type="stepAfter" dataKey="success_rate" stroke="#10b981" strokeWidth={1} fill="none" name="成功率" isAnimationActive={false} />
+                        </AreaChart>
+                      </ResponsiveContainer>
+                    )}
+                  </div>
+                )}
               </div>
+            ))}
+          </div>
+        </div>
 
-              {/* Network History Chart */}
-              <div 
+        {authRole === 'admin' && (
+          <div 
+            className={cn(
+              "p-8 rounded-2xl border shadow-xl transition-colors duration-300 h-fit",
+              isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+            )}
+            style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+          >
+            <h3 className={cn("text-xl font-black tracking-tight mb-8", isDarkMode ? "text-slate-100" : "text-slate-900")}>添加检查</h3>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">名称</label>
+                <input 
+                  type="text" 
+                  placeholder="例如: 官网 HTTPS"
+                  className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                  style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                  value={newProbe.name}
+                  onChange={e => setNewProbe({ ...newProbe, name: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">类型</label>
+                  <select
+                    className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                    style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                    value={newProbe.type}
+                    onChange={e => setNewProbe({ ...newProbe, type: e.target.value as ProbeType, config: {} })}
+                  >
+                    {(Object.keys(PROBE_TYPES) as ProbeType[]).map(t => (
+                      <option key={t} value={t}>{PROBE_TYPES[t].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">间隔 (秒)</label>
+                  <input 
+                    type="number" 
+                    min="10"
+                    className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                    style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                    value={newProbe.interval}
+                    onChange={e => setNewProbe({ ...newProbe, interval: parseInt(e.target.value) || 60 })}
+                  />
+                </div>
+              </div>
+              {PROBE_TYPES[newProbe.type].fields.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">{field.label}</label>
+                  <input 
+                    type="text" 
+                    placeholder={field.placeholder}
+                    className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                    style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                    value={newProbe.config[field.key] || ''}
+                    onChange={e => setNewProbe({ ...newProbe, config: { ...newProbe.config, [field.key]: e.target.value } })}
+                  />
+                </div>
+              ))}
+              {probeError && <p className="text-xs text-red-400 font-bold px-1">{probeError}</p>}
+              <button 
+                onClick={createProbe}
+                className="w-full text-white font-black py-3 rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg"
+                style={{ backgroundColor: themeColor, boxShadow: `0 10px 15px -3px ${themeColor}33` }}
+              >
+                <Plus size={20} />
+                添加检查
+              </button>
+              <p className="text-[10px] text-slate-500 italic px-1">检查由当前后端定时执行；可在告警中心添加 "服务检查失败数 &gt; 0" 规则接收通知。</p>
+            </div>
+          </div>
+        )}
+      </div>
+    ) : (
+      /* History Content */
+      <div className="space-y-8">
+        {showExport && (
+          <div 
+            className={cn(
+              "p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+              isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+            )}
+            style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+          >
+            <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
+              <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>导出历史数据</h3>
+              <div className={cn("flex p-1 rounded-xl border", isDarkMode ? "bg-slate-800 border-slate-700" : "bg-slate-100 border-slate-200")}>
+                {([['csv', 'CSV'], ['json', 'JSON'], ['prometheus', 'Prometheus']] as const).map(([format, label]) => (
+                  <button
+                    key={format}
+                    onClick={() => setExportFormat(format)}
+                    className={cn(
+                      "px-4 py-1.5 rounded-lg text-sm font-bold transition-all",
+                      exportFormat === format 
+                        ? "text-white shadow-md" 
+                        : isDarkMode ? "text-slate-400 hover:text-slate-200" : "text-slate-500 hover:text-slate-700"
+                    )}
+                    style={exportFormat === format ? { backgroundColor: themeColor } : {}}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-x-6 gap-y-3 mb-6">
+              {Object.entries(EXPORT_METRIC_LABELS).map(([key, label]) => (
+                <label key={key} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="size-4 cursor-pointer"
+                    style={{ accentColor: themeColor }}
+                    checked={exportMetrics.includes(key)}
+                    onChange={e => setExportMetrics(e.target.checked
+                      ? Object.keys(EXPORT_METRIC_LABELS).filter(k => k === key || exportMetrics.includes(k))
+                      : exportMetrics.filter(k => k !== key))}
+                  />
+                  <span className={cn("text-sm font-bold", isDarkMode ? "text-slate-300" : "text-slate-600")}>{label}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-[10px] text-slate-500 italic px-1">导出当前选择的时间范围；超出原始数据保留期的部分将使用汇总数据。</p>
+              <a
+                href={exportMetrics.length > 0 ? exportUrl : undefined}
+                download
                 className={cn(
-                  "lg:col-span-3 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
-                  isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                  "flex items-center gap-2 px-4 py-2 rounded-xl text-white text-sm font-bold transition-all hover:opacity-90 shrink-0",
+                  exportMetrics.length === 0 && "opacity-50 pointer-events-none"
                 )}
-                style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                style={{ backgroundColor: themeColor }}
               >
-                <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
-                  <div className="flex items-center gap-4">
-                    <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>网络历史趋势</h3>
-                    <div className={cn("flex items-center p-1 rounded-lg border", isDarkMode ? "bg-slate-800 border-slate-700" : "bg-slate-100 border-slate-200")}>
-                      {(['Auto', 'KB/s', 'MB/s', 'Mbps'] as const).map(unit => (
-                        <button
-                          key={unit}
-                          onClick={() => setNetUnit(unit)}
-                          className={cn(
-                            "px-2 py-0.5 text-[10px] font-bold rounded transition-all",
-                            netUnit === unit 
-                              ? "text-white shadow-sm" 
-                              : (isDarkMode ? "text-slate-400 hover:text-slate-200" : "text-slate-500 hover:text-slate-700")
-                          )}
-                          style={netUnit === unit ? { backgroundColor: themeColor } : {}}
-                        >
-                          {unit}
-                        </button>
-                      ))}
-                    </div>
+                <Download size={16} />
+                下载
+              </a>
+            </div>
+          </div>
+        )}
+        {isHistoryLoading ? (
+              <div className="flex flex-col items-center justify-center h-[50vh] space-y-4">
+                <RefreshCw className="size-12 animate-spin text-slate-500" />
+                <p className="text-slate-500 font-bold">正在加载历史数据...</p>
+              </div>
+            ) : longHistory.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-[50vh] space-y-4">
+                <Activity className="size-12 text-slate-500 opacity-20" />
+                <p className="text-slate-500 font-bold">暂无历史数据，请等待服务器记录...</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* CPU History */}
+                <div 
+                  className={cn(
+                    "p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                  )}
+                  style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                >
+                  <h3 className={cn("text-xl font-black tracking-tight mb-8", isDarkMode ? "text-slate-100" : "text-slate-900")}>CPU 负载历史</h3>
+                  <div className="h-[250px] w-full cursor-pointer">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart 
+                        data={longHistory}
+                        {...historyZoomProps(index => {
+                          const point = longHistory[index];
+                          if (point?.timestamp) fetchProcessSnapshot(point.timestamp);
+                        })}
+                      >
+                        <defs>
+                          <linearGradient id="colorCpuHist" x1="0" y1="0" x2="0" y2="1">
+                            <stop offset="5%" stopColor={themeColor} stopOpacity={0.2}/>
+                            <stop offset="95%" stopColor={themeColor} stopOpacity={0}/>
+                          </linearGradient>
+                        </defs>
+                        <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? "#334155" : "#e2e8f0"} vertical={false} />
+                        <XAxis dataKey="timestamp" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} tickFormatter={formatHistoryTick} minTickGap={30} />
+                        <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} />
+                        <Tooltip 
+                          labelFormatter={formatHistoryLabel}
+                          contentStyle={{ 
+                            backgroundColor: isDarkMode ? '#0f172a' : '#fff', 
+                            border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0', 
+                            borderRadius: '12px',
+                            color: isDarkMode ? '#f1f5f9' : '#0f172a'
+                          }}
+                        />
+                        <Area type="monotone" dataKey="cpu" stroke={themeColor} strokeWidth={3} fillOpacity={1} fill="url(#colorCpuHist)" name="CPU 负载" />
+                        <Area type="monotone" dataKey="cpu_max" stroke={themeColor} strokeDasharray="4 4" strokeWidth={1} fillOpacity={0} name="CPU 峰值" />
+                        {renderZoomArea()}
+                      </AreaChart>
+                    </ResponsiveContainer>
                   </div>
-                  <div className="flex items-center gap-6">
-                    <div className="flex items-center gap-2">
-                      <div className="size-3 rounded-full" style={{ backgroundColor: '#10b981' }} />
-                      <span className="text-xs font-bold text-slate-400 uppercase">下载 (RX)</span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <div className="size-3 rounded-full" style={{ backgroundColor: '#f59e0b' }} />
-                      <span className="text-xs font-bold text-slate-400 uppercase">上传 (TX)</span>
-                    </div>
+                </div>
+
+                {/* Memory History */}
+                <div 
+                  className={cn(
+                    "p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                  )}
+                  style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                >
+                  <h3 className={cn("text-xl font-black tracking-tight mb-8", isDarkMode ? "text-slate-100" : "text-slate-900")}>内存使用率历史</h3>
+                  <div className="h-[250px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart data={longHistory} {...historyZoomProps()}>
+                        <defs>
+                          <linearGradient id="colorMemHist" x1="0" y1="0" x2="0" y2="1">
+                            <stop offset="5%" stopColor={themeColor} stopOpacity={0.2}/>
+                            <stop offset="95%" stopColor={themeColor} stopOpacity={0}/>
+                          </linearGradient>
+                        </defs>
+                        <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? "#334155" : "#e2e8f0"} vertical={false} />
+                        <XAxis dataKey="timestamp" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} tickFormatter={formatHistoryTick} minTickGap={30} />
+                        <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} />
+                        <Tooltip 
+                          labelFormatter={formatHistoryLabel}
+                          contentStyle={{ 
+                            backgroundColor: isDarkMode ? '#0f172a' : '#fff', 
+                            border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0', 
+                            borderRadius: '12px',
+                            color: isDarkMode ? '#f1f5f9' : '#0f172a'
+                          }}
+                        />
+                        <Area type="monotone" dataKey="mem" stroke={themeColor} strokeWidth={3} fillOpacity={1} fill="url(#colorMemHist)" name="内存使用率" />
+                        <Area type="monotone" dataKey="mem_max" stroke={themeColor} strokeDasharray="4 4" strokeWidth={1} fillOpacity={0} name="内存峰值" />
+                        {renderZoomArea()}
+                      </AreaChart>
+                    </ResponsiveContainer>
                   </div>
                 </div>
-                <div className="h-[250px] w-full">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart 
-                      data={history.map(h => ({
-                        ...h,
-                        rx_val: getNetValue(h.rx, netUnit),
-                        tx_val: getNetValue(h.tx, netUnit)
-                      }))}
-                    >
-                      <defs>
-                        <linearGradient id="colorRx" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="5%" stopColor="#10b981" stopOpacity={0.2}/>
-                          <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
-                        </linearGradient>
-                        <linearGradient id="colorTx" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="5%" stopColor="#f59e0b" stopOpacity={0.2}/>
-                          <stop offset="95%" stopColor="#f59e0b" stopOpacity={0}/>
-                        </linearGradient>
-                      </defs>
-                      <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? "#334155" : "#e2e8f0"} vertical={false} />
-                      <XAxis dataKey="time" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} hide />
-                      <YAxis 
-                        stroke="#64748b" 
-                        fontSize={12} 
-                        tickLine={false} 
-                        axisLine={false} 
-                        tickFormatter={(value) => netUnit === 'Auto' ? formatBytes(value).replace('/s', '') : value}
-                      />
-                      <Tooltip 
-                        contentStyle={{ 
-                          backgroundColor: isDarkMode ? '#0f172a' : '#fff', 
-                          border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0', 
-                          borderRadius: '12px', 
-                          boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)',
-                          color: isDarkMode ? '#f1f5f9' : '#0f172a'
-                        }}
-                        itemStyle={{ fontSize: '12px', fontWeight: 'bold' }}
-                        formatter={(value: any) => [
-                          netUnit === 'Auto' ? formatNetValue(value as number, 'Auto') : `${(value as number).toFixed(2)} ${netUnit}`, 
-                          ''
-                        ]}
-                      />
-                      <Area type="monotone" dataKey="rx_val" stroke="#10b981" strokeWidth={3} fillOpacity={1} fill="url(#colorRx)" name="下载 (RX)" animationDuration={500} />
-                      <Area type="monotone" dataKey="tx_val" stroke="#f59e0b" strokeWidth={3} fillOpacity={1} fill="url(#colorTx)" name="上传 (TX)" animationDuration={500} />
-                    </AreaChart>
-                  </ResponsiveContainer>
+
+                {/* Disk I/O History */}
+                <div 
+                  className={cn(
+                    "lg:col-span-2 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                  )}
+                  style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                >
+                  <div className="flex justify-between items-center mb-8">
+                    <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>磁盘 I/O 历史</h3>
+                    <div className="flex gap-4">
+                      <div className="flex items-center gap-2">
+                        <div className="size-3 rounded-full bg-indigo-500" />
+                        <span className="text-xs font-bold text-slate-500 uppercase">读取</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="size-3 rounded-full bg-pink-500" />
+                        <span className="text-xs font-bold text-slate-500 uppercase">写入</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="size-3 rounded-full bg-slate-500" />
+                        <span className="text-xs font-bold text-slate-500 uppercase">IOWAIT</span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="h-[250px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart data={longHistory} {...historyZoomProps()}>
+                        <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? "#334155" : "#e2e8f0"} vertical={false} />
+                        <XAxis dataKey="timestamp" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} tickFormatter={formatHistoryTick} minTickGap={30} />
+                        <YAxis yAxisId="bytes" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => formatBytes(value)} />
+                        <YAxis yAxisId="iowait" orientation="right" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} />
+                        <Tooltip 
+                          labelFormatter={formatHistoryLabel}
+                          contentStyle={{ 
+                            backgroundColor: isDarkMode ? '#0f172a' : '#fff', 
+                            border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0', 
+                            borderRadius: '12px',
+                            color: isDarkMode ? '#f1f5f9' : '#0f172a'
+                          }}
+                          formatter={(value, name) => [
+                            name === 'IOWAIT %' ? `${(value as number).toFixed(2)}%` : `${formatBytes(value as number)}/s`,
+                            name
+                          ]}
+                        />
+                        <Area yAxisId="bytes" type="monotone" dataKey="disk_read" stroke="#6366f1" strokeWidth={3} fillOpacity={0.15} fill="#6366f1" name="读取" />
+                        <Area yAxisId="bytes" type="monotone" dataKey="disk_write" stroke="#ec4899" strokeWidth={3} fillOpacity={0.15} fill="#ec4899" name="写入" />
+                        <Area yAxisId="iowait" type="monotone" dataKey="iowait" stroke="#64748b" strokeDasharray="5 5" strokeWidth={2} fillOpacity={0} name="IOWAIT %" />
+                        {renderZoomArea()}
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  </div>
                 </div>
-              </div>
-            </div>
-          </div>
-        )}
-      </>
-    ) : (
-      /* History Content */
-      <div className="space-y-8">
-        {isHistoryLoading ? (
-              <div className="flex flex-col items-center justify-center h-[50vh] space-y-4">
-                <RefreshCw className="size-12 animate-spin text-slate-500" />
-                <p className="text-slate-500 font-bold">正在加载历史数据...</p>
-              </div>
-            ) : longHistory.length === 0 ? (
-              <div className="flex flex-col items-center justify-center h-[50vh] space-y-4">
-                <Activity className="size-12 text-slate-500 opacity-20" />
-                <p className="text-slate-500 font-bold">暂无历史数据，请等待服务器记录...</p>
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-                {/* CPU History */}
+
+                {/* Load Average History */}
                 <div 
                   className={cn(
                     "p-8 rounded-2xl border shadow-xl transition-colors duration-300",
@@ -941,20 +3703,15 @@ const App: React.FC = () => {
                   )}
                   style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
                 >
-                  <h3 className={cn("text-xl font-black tracking-tight mb-8", isDarkMode ? "text-slate-100" : "text-slate-900")}>CPU 负载历史</h3>
+                  <h3 className={cn("text-xl font-black tracking-tight mb-8", isDarkMode ? "text-slate-100" : "text-slate-900")}>系统平均负载历史</h3>
                   <div className="h-[250px] w-full">
                     <ResponsiveContainer width="100%" height="100%">
-                      <AreaChart data={longHistory}>
-                        <defs>
-                          <linearGradient id="colorCpuHist" x1="0" y1="0" x2="0" y2="1">
-                            <stop offset="5%" stopColor={themeColor} stopOpacity={0.2}/>
-                            <stop offset="95%" stopColor={themeColor} stopOpacity={0}/>
-                          </linearGradient>
-                        </defs>
+                      <AreaChart data={longHistory} {...historyZoomProps()}>
                         <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? "#334155" : "#e2e8f0"} vertical={false} />
-                        <XAxis dataKey="time" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} />
-                        <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} />
+                        <XAxis dataKey="timestamp" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} tickFormatter={formatHistoryTick} minTickGap={30} />
+                        <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
                         <Tooltip 
+                          labelFormatter={formatHistoryLabel}
                           contentStyle={{ 
                             backgroundColor: isDarkMode ? '#0f172a' : '#fff', 
                             border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0', 
@@ -962,13 +3719,16 @@ const App: React.FC = () => {
                             color: isDarkMode ? '#f1f5f9' : '#0f172a'
                           }}
                         />
-                        <Area type="monotone" dataKey="cpu" stroke={themeColor} strokeWidth={3} fillOpacity={1} fill="url(#colorCpuHist)" name="CPU 负载" />
+                        <Area type="monotone" dataKey="load_1" stroke={themeColor} strokeWidth={3} fillOpacity={0.1} fill={themeColor} name="1 分钟" />
+                        <Area type="monotone" dataKey="load_5" stroke={themeColor} strokeDasharray="5 5" strokeWidth={2} fillOpacity={0} name="5 分钟" />
+                        <Area type="monotone" dataKey="load_15" stroke="#64748b" strokeWidth={2} fillOpacity={0} name="15 分钟" />
+                        {renderZoomArea()}
                       </AreaChart>
                     </ResponsiveContainer>
                   </div>
                 </div>
 
-                {/* Memory History */}
+                {/* Steal / Temperature History */}
                 <div 
                   className={cn(
                     "p-8 rounded-2xl border shadow-xl transition-colors duration-300",
@@ -976,20 +3736,16 @@ const App: React.FC = () => {
                   )}
                   style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
                 >
-                  <h3 className={cn("text-xl font-black tracking-tight mb-8", isDarkMode ? "text-slate-100" : "text-slate-900")}>内存使用率历史</h3>
+                  <h3 className={cn("text-xl font-black tracking-tight mb-8", isDarkMode ? "text-slate-100" : "text-slate-900")}>CPU 窃取时间 / 温度历史</h3>
                   <div className="h-[250px] w-full">
                     <ResponsiveContainer width="100%" height="100%">
-                      <AreaChart data={longHistory}>
-                        <defs>
-                          <linearGradient id="colorMemHist" x1="0" y1="0" x2="0" y2="1">
-                            <stop offset="5%" stopColor={themeColor} stopOpacity={0.2}/>
-                            <stop offset="95%" stopColor={themeColor} stopOpacity={0}/>
-                          </linearGradient>
-                        </defs>
+                      <AreaChart data={longHistory} {...historyZoomProps()}>
                         <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? "#334155" : "#e2e8f0"} vertical={false} />
-                        <XAxis dataKey="time" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} />
-                        <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} />
+                        <XAxis dataKey="timestamp" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} tickFormatter={formatHistoryTick} minTickGap={30} />
+                        <YAxis yAxisId="steal" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} />
+                        <YAxis yAxisId="temp" orientation="right" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}°C`} />
                         <Tooltip 
+                          labelFormatter={formatHistoryLabel}
                           contentStyle={{ 
                             backgroundColor: isDarkMode ? '#0f172a' : '#fff', 
                             border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0', 
@@ -997,7 +3753,9 @@ const App: React.FC = () => {
                             color: isDarkMode ? '#f1f5f9' : '#0f172a'
                           }}
                         />
-                        <Area type="monotone" dataKey="mem" stroke={themeColor} strokeWidth={3} fillOpacity={1} fill="url(#colorMemHist)" name="内存使用率" />
+                        <Area yAxisId="steal" type="monotone" dataKey="steal" stroke="#ef4444" strokeWidth={3} fillOpacity={0.1} fill="#ef4444" name="窃取时间 %" />
+                        <Area yAxisId="temp" type="monotone" dataKey="temp" stroke="#f59e0b" strokeWidth={2} fillOpacity={0} name="温度 °C" />
+                        {renderZoomArea()}
                       </AreaChart>
                     </ResponsiveContainer>
                   </div>
@@ -1012,7 +3770,22 @@ const App: React.FC = () => {
                   style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
                 >
                   <div className="flex justify-between items-center mb-8">
-                    <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>网络流量历史</h3>
+                    <div className="flex items-center gap-4">
+                      <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>网络流量历史</h3>
+                      <select
+                        value={netIface}
+                        onChange={e => setNetIface(e.target.value)}
+                        className={cn(
+                          "px-2 py-1 rounded-lg border text-[10px] font-bold outline-none transition-colors duration-300",
+                          isDarkMode ? "bg-slate-800 border-slate-700 text-slate-300" : "bg-slate-100 border-slate-200 text-slate-600"
+                        )}
+                      >
+                        <option value="all">全部网卡{excludeVirtualIfaces ? ' (不含虚拟)' : ''}</option>
+                        {historyIfaces.map(n => (
+                          <option key={n.iface} value={n.iface}>{n.iface}{n.virtual ? ' (虚拟)' : ''}</option>
+                        ))}
+                      </select>
+                    </div>
                     <div className="flex gap-4">
                       <div className="flex items-center gap-2">
                         <div className="size-3 rounded-full bg-emerald-500" />
@@ -1028,9 +3801,10 @@ const App: React.FC = () => {
                     <ResponsiveContainer width="100%" height="100%">
                       <AreaChart data={longHistory.map(h => ({
                         ...h,
-                        rx_val: getNetValue(h.rx, netUnit),
-                        tx_val: getNetValue(h.tx, netUnit)
-                      }))}>
+                        // 缺失数据的时间段保持为空，图表中显示为断开
+                        rx_val: h.rx != null ? getNetValue(h.rx, netUnit) : null,
+                        tx_val: h.tx != null ? getNetValue(h.tx, netUnit) : null
+                      }))} {...historyZoomProps()}>
                         <defs>
                           <linearGradient id="colorRxHist" x1="0" y1="0" x2="0" y2="1">
                             <stop offset="5%" stopColor="#10b981" stopOpacity={0.2}/>
@@ -1042,7 +3816,7 @@ const App: React.FC = () => {
                           </linearGradient>
                         </defs>
                         <CartesianGrid strokeDasharray="3 3" stroke={isDarkMode ? "#334155" : "#e2e8f0"} vertical={false} />
-                        <XAxis dataKey="time" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} />
+                        <XAxis dataKey="timestamp" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} tickFormatter={formatHistoryTick} minTickGap={30} />
                         <YAxis 
                           stroke="#64748b" 
                           fontSize={12} 
@@ -1051,6 +3825,7 @@ const App: React.FC = () => {
                           tickFormatter={(value) => netUnit === 'Auto' ? formatBytes(value).replace('/s', '') : value}
                         />
                         <Tooltip 
+                          labelFormatter={formatHistoryLabel}
                           contentStyle={{ 
                             backgroundColor: isDarkMode ? '#0f172a' : '#fff', 
                             border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0', 
@@ -1064,10 +3839,60 @@ const App: React.FC = () => {
                         />
                         <Area type="monotone" dataKey="rx_val" stroke="#10b981" strokeWidth={3} fillOpacity={1} fill="url(#colorRxHist)" name="下载" />
                         <Area type="monotone" dataKey="tx_val" stroke="#f59e0b" strokeWidth={3} fillOpacity={1} fill="url(#colorTxHist)" name="上传" />
+                        {renderZoomArea()}
                       </AreaChart>
                     </ResponsiveContainer>
                   </div>
                 </div>
+
+                {/* Process Snapshot */}
+                <div 
+                  className={cn(
+                    "lg:col-span-2 p-8 rounded-2xl border shadow-xl transition-colors duration-300",
+                    isDarkMode ? "bg-[#1e293b] border-slate-700" : "bg-white border-slate-200"
+                  )}
+                  style={{ backgroundColor: isDarkMode ? `rgba(30, 41, 59, ${cardOpacity})` : `rgba(255, 255, 255, ${cardOpacity})` }}
+                >
+                  <div className="flex justify-between items-center mb-8">
+                    <h3 className={cn("text-xl font-black tracking-tight", isDarkMode ? "text-slate-100" : "text-slate-900")}>进程占用快照</h3>
+                    {processSnapshot?.timestamp && (
+                      <span className="text-xs font-mono font-bold text-slate-500">{parseDbTime(processSnapshot.timestamp).toLocaleString()}</span>
+                    )}
+                  </div>
+                  {!processSnapshot ? (
+                    <div className="flex flex-col items-center justify-center py-8 space-y-3">
+                      <ListOrdered className="size-10 text-slate-500 opacity-20" />
+                      <p className="text-slate-500 text-sm font-bold">点击 CPU 负载历史图表中的时间点，查看当时占用最高的进程</p>
+                    </div>
+                  ) : processSnapshot.processes.length === 0 ? (
+                    <p className="text-slate-500 text-sm font-bold text-center py-8">该时间点附近没有进程记录</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                          <th className="py-2 pr-4">PID</th>
+                          <th className="py-2 pr-4">进程</th>
+                          <th className="py-2 pr-4">用户</th>
+                          <th className="py-2 pr-4">CPU%</th>
+                          <th className="py-2 pr-4">内存 (RSS)</th>
+                          <th className="py-2">命令行</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {processSnapshot.processes.map(p => (
+                          <tr key={p.pid} className={cn("border-t", isDarkMode ? "border-slate-700/50" : "border-slate-100")}>
+                            <td className="py-2 pr-4 font-mono text-xs text-slate-500">{p.pid}</td>
+                            <td className={cn("py-2 pr-4 font-bold", isDarkMode ? "text-slate-200" : "text-slate-700")}>{p.name}</td>
+                            <td className="py-2 pr-4 text-xs text-slate-500">{p.user}</td>
+                            <td className="py-2 pr-4 font-mono font-bold" style={{ color: themeColor }}>{p.cpu.toFixed(1)}</td>
+                            <td className="py-2 pr-4 font-mono text-xs">{formatBytes(p.rss)}</td>
+                            <td className="py-2 font-mono text-[10px] text-slate-500 truncate max-w-[360px]" title={p.command}>{p.command}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
               </div>
             )}
           </div>
@@ -1202,6 +4027,11 @@ const App: React.FC = () => {
               <div className={cn("mb-8 p-6 rounded-2xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
                 <label className="text-xs font-black text-slate-500 uppercase tracking-widest px-1 block mb-4">当前服务器设置</label>
                 <div className="space-y-4">
+                  {activeServer.hubNode ? (
+                    <p className={cn("text-sm px-1", isDarkMode ? "text-slate-300" : "text-slate-600")}>
+                      {activeServer.name} 是由 Hub ({hubServer.name}) 接入的节点，名称与连接由 Hub 管理。
+                    </p>
+                  ) : (
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-2">
                       <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">服务器名称</label>
@@ -1226,10 +4056,588 @@ const App: React.FC = () => {
                       />
                     </div>
                   </div>
-                  <p className="text-[10px] text-slate-500 italic px-1">修改后端地址后，系统将尝试自动重连。</p>
+                  )}
+                  <label className="flex items-center gap-3 px-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="size-4 cursor-pointer"
+                      style={{ accentColor: themeColor }}
+                      checked={excludeVirtualIfaces}
+                      disabled={authRole === 'viewer'}
+                      onChange={e => setExcludeVirtualIfaces(e.target.checked)}
+                    />
+                    <span className={cn("text-sm font-bold", isDarkMode ? "text-slate-300" : "text-slate-600")}>流量统计排除虚拟网卡与回环接口 (lo、docker、veth 等)</span>
+                  </label>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">分组</label>
+                      <input 
+                        type="text" 
+                        list="server-groups"
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={activeServer.group || ''}
+                        disabled={authRole === 'viewer'}
+                        onChange={e => updateServerMeta(activeServer, { group: e.target.value })}
+                        placeholder="例如：亚太"
+                      />
+                      <datalist id="server-groups">
+                        {knownGroups.map(group => <option key={group} value={group} />)}
+                      </datalist>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">到期日</label>
+                      <input 
+                        type="date" 
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={activeServer.expiry || ''}
+                        disabled={authRole === 'viewer'}
+                        onChange={e => updateServerMeta(activeServer, { expiry: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">价格</label>
+                      <input 
+                        type="text" 
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={activeServer.price || ''}
+                        disabled={authRole === 'viewer'}
+                        onChange={e => updateServerMeta(activeServer, { price: e.target.value })}
+                        placeholder="例如：$5/月"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">标签 (地区、服务商、用途等，回车添加)</label>
+                    <div className={cn("flex flex-wrap items-center gap-2 rounded-xl px-3 py-2 border", isDarkMode ? "bg-[#0f172a] border-slate-700" : "bg-white border-slate-200")}>
+                      {activeServer.tags?.map(tag => (
+                        <span key={tag} className={cn("flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-bold", isDarkMode ? "bg-slate-700 text-slate-200" : "bg-slate-100 text-slate-700")}>
+                          {tag}
+                          {authRole !== 'viewer' && (
+                            <button onClick={() => updateServerMeta(activeServer, { tags: activeServer.tags?.filter(t => t !== tag) })} className="hover:text-red-500">
+                              <X size={12} />
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                      <input 
+                        type="text" 
+                        className={cn("flex-1 min-w-[120px] bg-transparent outline-none py-1 text-sm", isDarkMode ? "text-slate-100" : "text-slate-900")}
+                        value={tagInput}
+                        disabled={authRole === 'viewer'}
+                        onChange={e => setTagInput(e.target.value)}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter' || e.key === ',') {
+                            e.preventDefault();
+                            addTag();
+                          }
+                        }}
+                        onBlur={addTag}
+                        placeholder="例如：香港"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">备注</label>
+                    <textarea 
+                      rows={2}
+                      className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border resize-none", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                      style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                      value={activeServer.notes || ''}
+                      disabled={authRole === 'viewer'}
+                      onChange={e => updateServerMeta(activeServer, { notes: e.target.value })}
+                      placeholder="例如：年付续费，控制面板账号 xxx"
+                    />
+                  </div>
+                  <p className="text-[10px] text-slate-500 italic px-1">修改后端地址后，系统将尝试自动重连。侧边栏中可拖拽服务器调整顺序，拖到其他分组的服务器上即可移入该分组。</p>
                 </div>
               </div>
 
+              {authRole === 'admin' && hubNodes[hubServer.id] && (
+                <div className={cn("mb-8 p-6 rounded-2xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                  <label className="text-xs font-black text-slate-500 uppercase tracking-widest px-1 block mb-4">Hub 节点 ({hubServer.name})</label>
+                  <div className="space-y-3">
+                    {hubNodes[hubServer.id].map(node => (
+                      <div key={node.id} className={cn("flex items-center justify-between p-4 rounded-2xl border", isDarkMode ? "bg-slate-800/30 border-slate-700" : "bg-white border-slate-200")}>
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div className={cn("size-2 rounded-full shrink-0", node.online ? "bg-green-500" : "bg-slate-500")} />
+                          <div className="min-w-0">
+                            <div className={cn("font-bold truncate", isDarkMode ? "text-slate-100" : "text-slate-900")}>{node.name}</div>
+                            <div className="text-xs text-slate-500">
+                              {node.online ? '在线' : node.lastSeen ? `最后在线 ${new Date(node.lastSeen).toLocaleString()}` : '尚未连接'}
+                              {node.online && node.protocolVersion != null && node.protocolVersion < PROTOCOL_VERSION && (
+                                <span className="ml-2 font-bold text-amber-500">协议 v{node.protocolVersion}，需升级</span>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                        <button 
+                          onClick={() => deleteHubNode(node.id)}
+                          className="p-2.5 text-slate-500 hover:text-red-500 hover:bg-red-500/10 rounded-xl transition-all shrink-0"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      </div>
+                    ))}
+                    {createdNode?.token && (
+                      <div className="p-4 rounded-2xl border border-dashed space-y-2" style={{ borderColor: themeColor }}>
+                        <div className="text-xs font-bold" style={{ color: themeColor }}>
+                          在节点 {createdNode.name} 上以 agent 模式启动 (令牌仅显示一次，请妥善保存)
+                        </div>
+                        <input 
+                          type="text" 
+                          readOnly
+                          onFocus={e => e.target.select()}
+                          className={cn("w-full rounded-xl px-4 py-2 font-mono text-xs outline-none border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                          value={`ROLE=agent HUB_URL=${hubServer.url} AGENT_TOKEN=${createdNode.token} node index.js`}
+                        />
+                      </div>
+                    )}
+                    <div className="flex gap-3">
+                      <input 
+                        type="text" 
+                        placeholder="节点名称，例如：香港 VPS"
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={newNodeName}
+                        onChange={e => setNewNodeName(e.target.value)}
+                      />
+                      <button
+                        onClick={createHubNode}
+                        className="px-4 py-2 rounded-xl text-white text-sm font-bold transition-all hover:opacity-90 shrink-0"
+                        style={{ backgroundColor: themeColor }}
+                      >
+                        添加节点
+                      </button>
+                    </div>
+                    <p className="text-[10px] text-slate-500 italic px-1">节点主动连接 Hub 推送数据，无需开放节点端口；历史数据统一保存在 Hub 上。</p>
+                  </div>
+                </div>
+              )}
+
+              {authRole === 'admin' && !activeServer.hubNode && (
+                <div className={cn("mb-8 p-6 rounded-2xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                  <label className="text-xs font-black text-slate-500 uppercase tracking-widest px-1 block mb-4">系统服务监控</label>
+                  <div className="flex gap-2 mb-2">
+                    <input 
+                      type="text" 
+                      placeholder="nginx, mysql, myapp.service"
+                      className={cn("flex-1 rounded-xl px-4 py-2 text-sm focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                      style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                      value={systemdUnits}
+                      onChange={e => setSystemdUnits(e.target.value)}
+                    />
+                    <button
+                      onClick={saveSystemdUnits}
+                      className="px-4 py-2 rounded-xl text-white text-sm font-bold transition-all hover:opacity-90 shrink-0"
+                      style={{ backgroundColor: themeColor }}
+                    >
+                      保存
+                    </button>
+                  </div>
+                  <p className="text-[10px] text-slate-500 italic px-1">以逗号分隔的 systemd 单元名，省略后缀时视为 .service；单元进入 failed 状态会记录到故障事件中。</p>
+                </div>
+              )}
+
+              {authRole === 'admin' && !activeServer.hubNode && (
+                <div className={cn("mb-8 p-6 rounded-2xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                  <label className="text-xs font-black text-slate-500 uppercase tracking-widest px-1 block mb-4">流量配额</label>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">每月配额 (GB，0 为不限)</label>
+                      <input 
+                        type="number" 
+                        min="0"
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={bandwidthForm.quota}
+                        onChange={e => setBandwidthForm({ ...bandwidthForm, quota: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">每月重置日</label>
+                      <input 
+                        type="number" 
+                        min="1"
+                        max="31"
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={bandwidthForm.resetDay}
+                        onChange={e => setBandwidthForm({ ...bandwidthForm, resetDay: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">计费方式</label>
+                      <select
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={bandwidthForm.mode}
+                        onChange={e => setBandwidthForm({ ...bandwidthForm, mode: e.target.value as BandwidthMode })}
+                      >
+                        {(Object.keys(BANDWIDTH_MODE_LABELS) as BandwidthMode[]).map(mode => (
+                          <option key={mode} value={mode}>{BANDWIDTH_MODE_LABELS[mode]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-[10px] text-slate-500 italic px-1">重置日大于当月天数时按月末计算；可在告警中心添加 "预计月流量占配额 &gt; 100" 规则以提前告警。</p>
+                    <button
+                      onClick={saveBandwidthSettings}
+                      className="px-4 py-2 rounded-xl text-white text-sm font-bold transition-all hover:opacity-90 shrink-0"
+                      style={{ backgroundColor: themeColor }}
+                    >
+                      保存
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {authRole === 'admin' && (
+                <div className={cn("mb-8 p-6 rounded-2xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                  <label className="text-xs font-black text-slate-500 uppercase tracking-widest px-1 block mb-4">数据保留</label>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                    {(Object.keys(RETENTION_LABELS) as RetentionTier[]).map(tier => (
+                      <div key={tier} className="space-y-2">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">{RETENTION_LABELS[tier]} (天)</label>
+                        <input 
+                          type="number" 
+                          min="1"
+                          className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                          style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                          value={retention[tier]}
+                          onChange={e => setRetention({ ...retention, [tier]: Math.max(1, parseInt(e.target.value) || 1) })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-[10px] text-slate-500 italic px-1">历史查询会根据时间范围自动选择精度，30 天以上的范围使用 1 小时汇总数据。</p>
+                    <button
+                      onClick={() => saveCloudSettings({ retention })}
+                      className="px-4 py-2 rounded-xl text-white text-sm font-bold transition-all hover:opacity-90 shrink-0"
+                      style={{ backgroundColor: themeColor }}
+                    >
+                      保存
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {authRole === 'admin' && (() => {
+                // 状态页由后端提供，可展示本机以及 Hub 接入的节点
+                const candidates = [
+                  { id: 'local', name: hubServer.name },
+                  ...(hubNodes[hubServer.id] || []).map(node => ({ id: node.id, name: node.name }))
+                ];
+                const statusUrl = `${window.location.origin}/status${hubServer.url === servers[0].url ? '' : `?server=${encodeURIComponent(hubServer.url)}`}`;
+                return (
+                  <div className={cn("mb-8 p-6 rounded-2xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                    <label className="text-xs font-black text-slate-500 uppercase tracking-widest px-1 block mb-4">公开状态页</label>
+                    <div className="space-y-4 mb-4">
+                      <label className="flex items-center gap-3 px-1 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="size-4 cursor-pointer"
+                          style={{ accentColor: themeColor }}
+                          checked={statusPage.enabled}
+                          onChange={e => setStatusPage({ ...statusPage, enabled: e.target.checked })}
+                        />
+                        <span className={cn("text-sm font-bold", isDarkMode ? "text-slate-300" : "text-slate-600")}>启用无需登录的只读状态页</span>
+                      </label>
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">页面标题</label>
+                        <input 
+                          type="text" 
+                          className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                          style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                          value={statusPage.title}
+                          onChange={e => setStatusPage({ ...statusPage, title: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">展示的服务器 (可设置对外显示名称)</label>
+                        {candidates.map(candidate => {
+                          const exposed = statusPage.servers.find(s => s.id === candidate.id);
+                          return (
+                            <div key={candidate.id} className="flex items-center gap-3">
+                              <input
+                                type="checkbox"
+                                className="size-4 cursor-pointer shrink-0"
+                                style={{ accentColor: themeColor }}
+                                checked={!!exposed}
+                                onChange={e => setStatusPage({
+                                  ...statusPage,
+                                  servers: e.target.checked
+                                    ? [...statusPage.servers, { id: candidate.id, name: candidate.name }]
+                                    : statusPage.servers.filter(s => s.id !== candidate.id)
+                                })}
+                              />
+                              <input 
+                                type="text" 
+                                disabled={!exposed}
+                                className={cn("w-full rounded-xl px-4 py-2 text-sm focus:ring-2 outline-none transition-all border disabled:opacity-50", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                                style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                                value={exposed?.name ?? candidate.name}
+                                onChange={e => setStatusPage({
+                                  ...statusPage,
+                                  servers: statusPage.servers.map(s => s.id === candidate.id ? { ...s, name: e.target.value } : s)
+                                })}
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-4 px-1">
+                        {(Object.keys(STATUS_PAGE_METRIC_LABELS) as StatusPageMetric[]).map(metric => (
+                          <label key={metric} className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              className="size-4 cursor-pointer"
+                              style={{ accentColor: themeColor }}
+                              checked={statusPage.metrics.includes(metric)}
+                              onChange={e => setStatusPage({
+                                ...statusPage,
+                                metrics: e.target.checked ? [...statusPage.metrics, metric] : statusPage.metrics.filter(m => m !== metric)
+                              })}
+                            />
+                            <span className={cn("text-sm font-bold", isDarkMode ? "text-slate-300" : "text-slate-600")}>{STATUS_PAGE_METRIC_LABELS[metric]}图表</span>
+                          </label>
+                        ))}
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="size-4 cursor-pointer"
+                            style={{ accentColor: themeColor }}
+                            checked={statusPage.showUptime}
+                            onChange={e => setStatusPage({ ...statusPage, showUptime: e.target.checked })}
+                          />
+                          <span className={cn("text-sm font-bold", isDarkMode ? "text-slate-300" : "text-slate-600")}>可用率与状态条</span>
+                        </label>
+                      </div>
+                      {statusPage.enabled && (
+                        <input 
+                          type="text" 
+                          readOnly
+                          onFocus={e => e.target.select()}
+                          className={cn("w-full rounded-xl px-4 py-2 font-mono text-xs outline-none border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                          value={statusUrl}
+                        />
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                      <p className="text-[10px] text-slate-500 italic px-1">状态页不显示后端地址与任何设置，数据每 30 秒刷新一次。</p>
+                      <button
+                        onClick={() => saveCloudSettings({ statusPage })}
+                        className="px-4 py-2 rounded-xl text-white text-sm font-bold transition-all hover:opacity-90 shrink-0"
+                        style={{ backgroundColor: themeColor }}
+                      >
+                        保存
+                      </button>
+                    </div>
+                  </div>
+                );
+              })()}
+
+              {authRole === 'admin' && (
+                <div className={cn("mb-8 p-6 rounded-2xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                  <label className="text-xs font-black text-slate-500 uppercase tracking-widest px-1 block mb-4">访问控制</label>
+                  <div className="space-y-3 mb-6">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">只读分享令牌</label>
+                    {viewerTokens.map(token => (
+                      <div key={token.id} className={cn("flex items-center justify-between p-4 rounded-2xl border", isDarkMode ? "bg-slate-800/30 border-slate-700" : "bg-white border-slate-200")}>
+                        <div className="min-w-0">
+                          <div className={cn("font-bold truncate", isDarkMode ? "text-slate-100" : "text-slate-900")}>{token.name}</div>
+                          <div className="text-xs text-slate-500">
+                            创建于 {parseDbTime(token.created_at).toLocaleString()}
+                            {token.expires_at && ` · 过期于 ${parseDbTime(token.expires_at).toLocaleString()}`}
+                          </div>
+                        </div>
+                        <button 
+                          onClick={() => deleteViewerToken(token.id)}
+                          className="p-2.5 text-slate-500 hover:text-red-500 hover:bg-red-500/10 rounded-xl transition-all shrink-0"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      </div>
+                    ))}
+                    {createdToken?.token && (
+                      <div className="p-4 rounded-2xl border border-dashed space-y-2" style={{ borderColor: themeColor }}>
+                        <div className="flex items-center gap-2 text-xs font-bold" style={{ color: themeColor }}>
+                          <LinkIcon size={14} />
+                          分享链接 (仅显示一次，请妥善保存)
+                        </div>
+                        <input 
+                          type="text" 
+                          readOnly
+                          onFocus={e => e.target.select()}
+                          className={cn("w-full rounded-xl px-4 py-2 font-mono text-xs outline-none border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                          value={shareLink(createdToken.token)}
+                        />
+                      </div>
+                    )}
+                    <div className="flex gap-3">
+                      <input 
+                        type="text" 
+                        placeholder="令牌名称，例如：客户大屏"
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                      style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={newTokenName}
+                        onChange={e => setNewTokenName(e.target.value)}
+                      />
+                      <button 
+                        onClick={createViewerToken}
+                        className="px-4 py-3 rounded-xl font-bold transition-all flex items-center gap-2 text-white shrink-0"
+                        style={{ backgroundColor: themeColor }}
+                      >
+                        <Plus size={18} />
+                        生成
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">修改管理员密码</label>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <input 
+                        type="password" 
+                        placeholder="当前密码"
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                      style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={passwordForm.currentPassword}
+                        onChange={e => setPasswordForm({ ...passwordForm, currentPassword: e.target.value })}
+                      />
+                      <input 
+                        type="password" 
+                        placeholder="新密码 (至少 6 位)"
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                      style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={passwordForm.newPassword}
+                        onChange={e => setPasswordForm({ ...passwordForm, newPassword: e.target.value })}
+                      />
+                    </div>
+                    {passwordStatus && <p className="text-xs font-bold text-slate-400 px-1">{passwordStatus}</p>}
+                    <button 
+                      onClick={changePassword}
+                      className={cn("w-full py-3 rounded-xl font-bold transition-all", isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300")}
+                    >
+                      修改密码
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {authRole === 'admin' && (
+                <div className={cn("mb-8 p-6 rounded-2xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
+                  <label className="text-xs font-black text-slate-500 uppercase tracking-widest px-1 block mb-4">通知渠道</label>
+                  <div className="space-y-3 mb-6">
+                    {channels.length === 0 && (
+                      <p className="text-xs text-slate-500 px-1">尚未配置通知渠道，告警触发时将不会发送消息。</p>
+                    )}
+                    {channels.map(channel => (
+                      <div key={channel.id} className={cn("flex items-center justify-between p-4 rounded-2xl border", isDarkMode ? "bg-slate-800/30 border-slate-700" : "bg-white border-slate-200")}>
+                        <div className="min-w-0">
+                          <div className={cn("font-bold truncate", isDarkMode ? "text-slate-100" : "text-slate-900")}>{channel.name}</div>
+                          <div className="text-xs text-slate-500">
+                            {NOTIFIER_TYPES[channel.type]?.label} · 限频 {channel.rate_limit}s
+                            {channelTestStatus[channel.id] && <span className="ml-2 font-bold">{channelTestStatus[channel.id]}</span>}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <button 
+                            onClick={() => testChannel(channel.id)}
+                            title="发送测试消息"
+                            className={cn("p-2.5 rounded-xl transition-all", isDarkMode ? "text-slate-400 hover:bg-slate-700" : "text-slate-500 hover:bg-slate-200")}
+                          >
+                            <Send size={18} />
+                          </button>
+                          <button 
+                            onClick={() => deleteChannel(channel.id)}
+                            className="p-2.5 text-slate-500 hover:text-red-500 hover:bg-red-500/10 rounded-xl transition-all"
+                          >
+                            <Trash2 size={18} />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">渠道名称</label>
+                      <input 
+                        type="text" 
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={newChannel.name}
+                        onChange={e => setNewChannel({ ...newChannel, name: e.target.value })}
+                        placeholder="例如：运维群机器人"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">渠道类型</label>
+                      <select
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={newChannel.type}
+                        onChange={e => setNewChannel({ ...newChannel, type: e.target.value as NotifierType, config: {} })}
+                      >
+                        {(Object.keys(NOTIFIER_TYPES) as NotifierType[]).map(t => (
+                          <option key={t} value={t}>{NOTIFIER_TYPES[t].label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {NOTIFIER_TYPES[newChannel.type].fields.map(field => (
+                      <div key={field.key} className="space-y-2">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">{field.label}</label>
+                        <input 
+                          type={field.secret ? 'password' : 'text'}
+                          className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                          value={newChannel.config[field.key] || ''}
+                          onChange={e => setNewChannel({ ...newChannel, config: { ...newChannel.config, [field.key]: e.target.value } })}
+                          placeholder={field.placeholder}
+                        />
+                      </div>
+                    ))}
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">最小发送间隔 (秒)</label>
+                      <input 
+                        type="number" 
+                        min="0"
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={newChannel.rate_limit}
+                        onChange={e => setNewChannel({ ...newChannel, rate_limit: parseInt(e.target.value, 10) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-2 md:col-span-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">消息模板 (可选)</label>
+                      <input 
+                        type="text" 
+                        className={cn("w-full rounded-xl px-4 py-3 focus:ring-2 outline-none transition-all border", isDarkMode ? "bg-[#0f172a] border-slate-700 text-slate-100" : "bg-white border-slate-200 text-slate-900")}
+                        style={{ '--tw-ring-color': themeColor } as React.CSSProperties}
+                        value={newChannel.template}
+                        onChange={e => setNewChannel({ ...newChannel, template: e.target.value })}
+                        placeholder="[{{state}}] {{server}} - {{rule}}: {{message}}"
+                      />
+                      <p className="text-[10px] text-slate-500 italic px-1">{'可用变量: {{server}} {{rule}} {{state}} {{message}} {{value}} {{time}}'}</p>
+                    </div>
+                    {channelError && <p className="md:col-span-2 text-xs text-red-400 font-bold px-1">{channelError}</p>}
+                    <button 
+                      onClick={createChannel}
+                      className="md:col-span-2 w-full text-white font-black py-3 rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg"
+                      style={{ backgroundColor: themeColor, boxShadow: `0 10px 15px -3px ${themeColor}33` }}
+                    >
+                      <Plus size={20} />
+                      添加通知渠道
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <div className={cn("mb-8 p-6 rounded-2xl border", isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-slate-50 border-slate-200")}>
                 <label className="text-xs font-black text-slate-500 uppercase tracking-widest px-1 block mb-4">自定义背景</label>
                 <div className="space-y-4">
@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Activity, CheckCircle2, AlertTriangle } from 'lucide-react';
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  AreaChart,
+  Area
+} from 'recharts';
+import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+
+type StatusMetric = 'cpu' | 'mem' | 'disk' | 'net';
+
+interface StatusServer {
+  name: string;
+  online: boolean;
+  current: { cpu?: number | null; mem?: number | null; disk?: number | null } | null;
+  uptime: {
+    month: number | null;
+    daily: Array<{ date: string; availability: number | null }>;
+  } | null;
+  history: Array<{ timestamp: string; cpu?: number; mem?: number; disk?: number; rx?: number; tx?: number }>;
+}
+
+interface StatusData {
+  title: string;
+  metrics: StatusMetric[];
+  updatedAt: string;
+  servers: StatusServer[];
+}
+
+const THEME_COLOR = '#3b82f6';
+
+const METRIC_CHARTS: Record<StatusMetric, { label: string; keys: Array<{ key: string; name: string; color: string }>; percent: boolean }> = {
+  cpu: { label: 'CPU 使用率', keys: [{ key: 'cpu', name: 'CPU', color: THEME_COLOR }], percent: true },
+  mem: { label: '内存使用率', keys: [{ key: 'mem', name: '内存', color: '#8b5cf6' }], percent: true },
+  disk: { label: '磁盘使用率', keys: [{ key: 'disk', name: '磁盘', color: '#f59e0b' }], percent: true },
+  net: {
+    label: '网络流量',
+    keys: [{ key: 'rx', name: '下载', color: '#10b981' }, { key: 'tx', name: '上传', color: THEME_COLOR }],
+    percent: false
+  }
+};
+
+// 与主面板保持一致的可用性颜色分级
+const availabilityColor = (availability: number | null) => {
+  if (availability === null) return '#64748b';
+  if (availability >= 99.9) return '#22c55e';
+  if (availability >= 99) return '#eab308';
+  if (availability >= 95) return '#f97316';
+  return '#ef4444';
+};
+
+const formatRate = (bytes: number) => {
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB/s`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB/s`;
+  return `${Math.round(bytes)} B/s`;
+};
+
+// 公开状态页使用构建时配置的后端，也可通过 ?server= 指定
+const backendUrl = () => {
+  const param = new URLSearchParams(window.location.search).get('server');
+  if (param) return param.replace(/\/+$/, '');
+  if (window.location.origin.includes('localhost:5173')) {
+    return import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+  }
+  return import.meta.env.VITE_BACKEND_URL || window.location.origin;
+};
+
+const StatusPage: React.FC = () => {
+  const [data, setData] = useState<StatusData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch(`${backendUrl()}/api/status`);
+      if (response.status === 404) {
+        setError('状态页未开启');
+        return;
+      }
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setData(await response.json());
+      setError(null);
+    } catch (e) {
+      console.error("Failed to fetch status:", e);
+      setError('暂时无法获取服务状态');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+    const timer = setInterval(fetchStatus, 30000);
+    return () => clearInterval(timer);
+  }, [fetchStatus]);
+
+  useEffect(() => {
+    if (data) document.title = data.title;
+  }, [data]);
+
+  const allOnline = data ? data.servers.every(s => s.online) : false;
+
+  return (
+    <div className="min-h-screen bg-[#0f172a] text-slate-100">
+      <div className="max-w-4xl mx-auto px-4 py-12">
+        <div className="flex items-center gap-3 mb-10">
+          <Activity size={28} style={{ color: THEME_COLOR }} />
+          <h1 className="text-3xl font-black tracking-tight">{data?.title || '服务状态'}</h1>
+        </div>
+
+        {error && !data && (
+          <div className="p-8 rounded-2xl border border-slate-700 bg-[#1e293b] text-center text-slate-400 font-bold">{error}</div>
+        )}
+
+        {data && (
+          <>
+            <div className={cn(
+              "flex items-center gap-3 p-6 rounded-2xl border mb-8 font-black text-lg",
+              allOnline ? "bg-green-500/10 border-green-500/30 text-green-400" : "bg-amber-500/10 border-amber-500/30 text-amber-400"
+            )}>
+              {allOnline ? <CheckCircle2 size={24} /> : <AlertTriangle size={24} />}
+              {allOnline ? '所有服务运行正常' : '部分服务异常'}
+            </div>
+
+            <div className="space-y-6">
+              {data.servers.map(server => (
+                <div key={server.name} className="p-6 rounded-2xl border border-slate-700 bg-[#1e293b] shadow-xl">
+                  <div className="flex items-center justify-between mb-4 gap-4">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className={cn("size-3 rounded-full shrink-0", server.online ? "bg-green-500" : "bg-red-500")} />
+                      <h2 className="text-lg font-black truncate">{server.name}</h2>
+                    </div>
+                    <div className="flex items-center gap-4 text-xs font-bold text-slate-400 shrink-0">
+                      {server.current?.cpu != null && <span>CPU {server.current.cpu.toFixed(0)}%</span>}
+                      {server.current?.mem != null && <span>内存 {server.current.mem.toFixed(0)}%</span>}
+                      {server.current?.disk != null && <span>磁盘 {server.current.disk.toFixed(0)}%</span>}
+                      <span className={server.online ? "text-green-400" : "text-red-400"}>{server.online ? '在线' : '离线'}</span>
+                    </div>
+                  </div>
+
+                  {server.uptime && (
+                    <div className="mb-4">
+                      <div className="flex gap-[2px] h-8 mb-2">
+                        {server.uptime.daily.map(day => (
+                          <div
+                            key={day.date}
+                            className="flex-1 rounded-sm"
+                            style={{ backgroundColor: availabilityColor(day.availability), opacity: day.availability === null ? 0.3 : 1 }}
+                            title={day.availability !== null ? `${day.date}: ${day.availability.toFixed(3)}%` : `${day.date}: 无数据`}
+                          />
+                        ))}
+                      </div>
+                      <div className="flex justify-between text-[10px] font-bold text-slate-500">
+                        <span>{server.uptime.daily.length} 天前</span>
+                        <span>近 30 天可用率 {server.uptime.month !== null ? `${server.uptime.month.toFixed(3)}%` : '--'}</span>
+                        <span>今天</span>
+                      </div>
+                    </div>
+                  )}
+
+                  {server.history.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {data.metrics.map(metric => {
+                        const chart = METRIC_CHARTS[metric];
+                        return (
+                          <div key={metric} className="p-4 rounded-xl border border-slate-700 bg-slate-800/50">
+                            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">{chart.label} (24 小时)</p>
+                            <div className="h-[120px]">
+                              <ResponsiveContainer width="100%" height="100%">
+                                <AreaChart data={server.history}>
+                                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                                  <XAxis dataKey="timestamp" hide />
+                                  <YAxis
+                                    stroke="#64748b"
+                                    fontSize={10}
+                                    tickLine={false}
+                                    axisLine={false}
+                                    width={chart.percent ? 30 : 60}
+                                    domain={chart.percent ? [0, 100] : [0, 'auto']}
+                                    tickFormatter={(value: number) => chart.percent ? `${value}%` : formatRate(value)}
+                                  />
+                                  <Tooltip
+                                    contentStyle={{
+                                      backgroundColor: '#0f172a',
+                                      border: '1px solid #334155',
+                                      borderRadius: '12px',
+                                      color: '#f1f5f9'
+                                    }}
+                                    itemStyle={{ fontSize: '12px', fontWeight: 'bold' }}
+                                    labelFormatter={(label) => new Date(String(label)).toLocaleString()}
+                                    formatter={(value) => chart.percent ? `${Number(value).toFixed(1)}%` : formatRate(Number(value))}
+                                  />
+                                  {chart.keys.map(({ key, name, color }) => (
+                                    <Area
+                                      key={key}
+                                      type="monotone"
+                                      dataKey={key}
+                                      name={name}
+                                      stroke={color}
+                                      strokeWidth={2}
+                                      fill={color}
+                                      fillOpacity={0.1}
+                                      isAnimationActive={false}
+                                    />
+                                  ))}
+                                </AreaChart>
+                              </ResponsiveContainer>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-slate-500 text-center mt-10">
+              更新于 {new Date(data.updatedAt).toLocaleString()} · 每 30 秒自动刷新
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatusPage;
@@ -2,9 +2,13 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import StatusPage from './StatusPage.tsx'
+
+// /status 为公开的只读状态页，不包含任何设置与后端地址
+const isStatusPage = window.location.pathname.replace(/\/+$/, '') === '/status'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isStatusPage ? <StatusPage /> : <App />}
   </StrictMode>,
 )
@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // Allow importing the protocol schema from ../shared
+    fs: { allow: ['..'] },
+  },
   build: {
     rollupOptions: {
       output: {
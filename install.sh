@@ -119,6 +119,15 @@ show_menu() {
 }
 EOF
     fi
+
+    if [ "$INSTALL_MODE" == "full" ] || [ "$INSTALL_MODE" == "backend" ]; then
+        echo -e "${YELLOW}请设置面板管理员密码 (用于登录面板和修改设置)${NC}"
+        echo -e "${CYAN}提示: 留空则保留原密码；首次安装留空将自动生成随机密码并输出到后端日志${NC}"
+        if ! read -s -p "管理员密码: " ADMIN_PASSWORD < /dev/tty; then
+            ADMIN_PASSWORD=""
+        fi
+        echo
+    fi
 }
 
 # --- 环境安装函数 ---
@@ -297,8 +306,13 @@ do_install_backend() {
     # 优先从源码目录复制，如果没有则使用脚本内置生成
     if [ -d "./backend" ]; then
         cp -r ./backend/* $INSTALL_DIR/backend/
+        # 后端读取 ../shared 中的协议版本
+        mkdir -p $INSTALL_DIR/shared
+        cp -r ./shared/* $INSTALL_DIR/shared/
     elif [ -d "$TEMP_DIR/backend" ]; then
         cp -r $TEMP_DIR/backend/* $INSTALL_DIR/backend/
+        mkdir -p $INSTALL_DIR/shared
+        cp -r $TEMP_DIR/shared/* $INSTALL_DIR/shared/
     else
         # 兜底：使用脚本内置生成的代码
         echo -e "${YELLOW}使用脚本内置后端逻辑...${NC}"
@@ -463,6 +477,11 @@ EOF
         netstat -nlp | grep :3001 | awk '{print $7}' | cut -d/ -f1 | xargs -r kill -9
     fi
 
+    # 写入管理员密码 (仅保存哈希，不会出现在 PM2 环境变量中)
+    if [ -n "$ADMIN_PASSWORD" ]; then
+        ADMIN_PASSWORD="$ADMIN_PASSWORD" node index.js --set-password
+    fi
+
     pm2 stop vps-monitor-backend &> /dev/null
     pm2 start index.js --name vps-monitor-backend
     
@@ -0,0 +1,290 @@
+// Wire format shared by the backend (which builds these objects) and the dashboard
+// (which validates them). Bump `version` in protocol.json when a change is not
+// backwards compatible; additive fields should be `optional` instead.
+import protocol from './protocol.json';
+import { array, boolean, literal, nullable, number, object, optional, string, type Infer } from './schema';
+
+// Connections that never announce a version predate the handshake
+export const LEGACY_PROTOCOL_VERSION = 1;
+export const PROTOCOL_VERSION: number = protocol.version;
+
+// --- Live metrics ---
+
+export const diskIODeviceSchema = object({
+  device: string(),
+  read_sec: number(),
+  write_sec: number(),
+  read_iops: number(),
+  write_iops: number(),
+  await: number(),
+  util: number()
+});
+
+export const processInfoSchema = object({
+  pid: number(),
+  name: string(),
+  user: string(),
+  cpu: number(),
+  mem: optional(number()),
+  rss: number(),
+  command: string()
+});
+
+export const containerInfoSchema = object({
+  id: string(),
+  name: string(),
+  image: string(),
+  state: string(),
+  status: string(),
+  restartCount: number(),
+  cpu: nullable(number()),
+  mem: nullable(number()),
+  memLimit: nullable(number()),
+  rx_sec: nullable(number()),
+  tx_sec: nullable(number())
+});
+
+export const serviceInfoSchema = object({
+  unit: string(),
+  description: string(),
+  loaded: boolean(),
+  state: string(),
+  subState: string(),
+  restarts: nullable(number()),
+  since: nullable(string())
+});
+
+export const networkInterfaceSchema = object({
+  iface: string(),
+  // null until the second sample of an interface
+  rx_sec: nullable(number()),
+  tx_sec: nullable(number()),
+  virtual: optional(boolean())
+});
+
+export const metricsSchema = object({
+  cpu: object({
+    // Static CPU details are missing when the hardware query failed
+    manufacturer: optional(string()),
+    brand: optional(string()),
+    speed: optional(number()),
+    cores: optional(number()),
+    load: number(),
+    coresLoad: optional(array(number())),
+    steal: optional(number()),
+    loadAvg: optional(array(number())),
+    temperature: optional(nullable(number())),
+    speedCurrent: optional(nullable(number()))
+  }),
+  memory: object({
+    total: number(),
+    free: number(),
+    used: number(),
+    active: number(),
+    percentage: number()
+  }),
+  network: array(networkInterfaceSchema),
+  disk: array(object({
+    fs: string(),
+    mount: string(),
+    type: string(),
+    size: number(),
+    used: number(),
+    available: number(),
+    use: nullable(number())
+  })),
+  diskIO: optional(object({
+    devices: array(diskIODeviceSchema),
+    iowait: nullable(number())
+  })),
+  processes: optional(array(processInfoSchema)),
+  containers: optional(nullable(array(containerInfoSchema))),
+  services: optional(nullable(array(serviceInfoSchema))),
+  uptime: number()
+});
+
+export type DiskIODevice = Infer<typeof diskIODeviceSchema>;
+export type ProcessInfo = Infer<typeof processInfoSchema>;
+export type ContainerInfo = Infer<typeof containerInfoSchema>;
+export type ServiceInfo = Infer<typeof serviceInfoSchema>;
+export type Metrics = Infer<typeof metricsSchema>;
+
+// Top-level keys of Metrics that can be subscribed to individually
+export const METRIC_GROUPS = ['cpu', 'memory', 'network', 'disk', 'diskIO', 'processes', 'containers', 'services', 'uptime'] as const;
+export type MetricGroup = typeof METRIC_GROUPS[number];
+
+// A `snapshot` carries the full value of every subscribed group; a `delta` only the
+// groups that changed, and for object groups (cpu, memory, diskIO) only changed keys
+export type MetricsUpdate = { [G in MetricGroup]?: Metrics[G] };
+export type MetricsDelta = { [G in MetricGroup]?: Metrics[G] | Partial<NonNullable<Metrics[G]>> };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Merge a snapshot or delta into the metrics received so far
+export function applyMetricsDelta(current: MetricsUpdate, delta: MetricsDelta): MetricsUpdate {
+  const next: Record<string, unknown> = { ...current };
+  for (const [group, value] of Object.entries(delta)) {
+    const previous = next[group];
+    next[group] = isPlainObject(value) && isPlainObject(previous) ? { ...previous, ...value } : value;
+  }
+  return next as MetricsUpdate;
+}
+
+// One entry of the backend's buffer of recent 1-second samples, sent as `samples`
+export const liveSampleSchema = object({
+  // Milliseconds since the epoch, on the backend's clock
+  timestamp: number(),
+  cpu: number(),
+  mem: number(),
+  network: array(networkInterfaceSchema),
+  diskRead: number(),
+  diskWrite: number()
+});
+export const liveSamplesSchema = array(liveSampleSchema);
+
+export type LiveSample = Infer<typeof liveSampleSchema>;
+
+// --- REST responses ---
+
+const historyValue = () => optional(nullable(number()));
+
+// One bucket of /api/history; every metric also has <name>_min / <name>_max
+export const historyPointSchema = object({
+  timestamp: string(),
+  time: string(),
+  cpu: historyValue(), cpu_min: historyValue(), cpu_max: historyValue(),
+  mem: historyValue(), mem_min: historyValue(), mem_max: historyValue(),
+  rx: historyValue(), rx_min: historyValue(), rx_max: historyValue(),
+  tx: historyValue(), tx_min: historyValue(), tx_max: historyValue(),
+  disk: historyValue(), disk_min: historyValue(), disk_max: historyValue(),
+  load_1: historyValue(), load_1_min: historyValue(), load_1_max: historyValue(),
+  load_5: historyValue(), load_5_min: historyValue(), load_5_max: historyValue(),
+  load_15: historyValue(), load_15_min: historyValue(), load_15_max: historyValue(),
+  steal: historyValue(), steal_min: historyValue(), steal_max: historyValue(),
+  temp: historyValue(), temp_min: historyValue(), temp_max: historyValue(),
+  speed: historyValue(), speed_min: historyValue(), speed_max: historyValue(),
+  disk_read: historyValue(), disk_read_min: historyValue(), disk_read_max: historyValue(),
+  disk_write: historyValue(), disk_write_min: historyValue(), disk_write_max: historyValue(),
+  disk_iops: historyValue(), disk_iops_min: historyValue(), disk_iops_max: historyValue(),
+  iowait: historyValue(), iowait_min: historyValue(), iowait_max: historyValue()
+});
+export const historyResponseSchema = array(historyPointSchema);
+
+export const alertEventSchema = object({
+  id: number(),
+  timestamp: string(),
+  rule_id: number(),
+  rule_name: string(),
+  state: literal('firing', 'resolved'),
+  value: number(),
+  message: string()
+});
+
+export const serviceEventSchema = object({
+  timestamp: string(),
+  unit: string(),
+  state: string(),
+  previous_state: nullable(string())
+});
+
+export const hubNodeSchema = object({
+  id: string(),
+  name: string(),
+  online: boolean(),
+  lastSeen: nullable(string()),
+  protocolVersion: optional(nullable(number())),
+  // Only returned once, when the node is created
+  token: optional(string())
+});
+
+export const availabilitySchema = object({
+  availability: nullable(number()),
+  downtime: number(),
+  outages: number()
+});
+
+export const outageSchema = object({
+  id: number(),
+  start: string(),
+  end: nullable(string()),
+  duration: number(),
+  reason: literal('offline', 'reboot')
+});
+
+export const uptimeReportSchema = object({
+  trackingSince: string(),
+  bootTime: nullable(string()),
+  summary: object({ day: availabilitySchema, week: availabilitySchema, month: availabilitySchema }),
+  daily: array(object({
+    date: string(),
+    availability: nullable(number()),
+    downtime: number(),
+    outages: number()
+  })),
+  outages: array(outageSchema)
+});
+
+export type HistoryPoint = Infer<typeof historyPointSchema>;
+export type AlertEvent = Infer<typeof alertEventSchema>;
+export type ServiceEvent = Infer<typeof serviceEventSchema>;
+export type HubNode = Infer<typeof hubNodeSchema>;
+export type Availability = Infer<typeof availabilitySchema>;
+export type Outage = Infer<typeof outageSchema>;
+export type UptimeReport = Infer<typeof uptimeReportSchema>;
+
+// --- Socket.IO ---
+
+export type Role = 'standalone' | 'hub' | 'agent';
+
+// First event on every dashboard connection. On a hub's /nodes/<id> namespace,
+// agentProtocolVersion is the version the agent announced (null when offline).
+export interface Hello {
+  protocolVersion: number;
+  role: Role;
+  agentProtocolVersion?: number | null;
+}
+
+// Subscribers get a `snapshot`, then a `delta` every `interval` ms when something changed.
+// Sockets that never subscribe receive the full object as `metrics` every second.
+export interface SubscribeRequest {
+  groups: MetricGroup[];
+  interval: number;
+  // Seconds of buffered samples to send first as `samples` (at most 15 minutes)
+  samples?: number;
+}
+
+export interface ServerToClientEvents {
+  hello: (hello: Hello) => void;
+  metrics: (metrics: Metrics) => void;
+  snapshot: (snapshot: MetricsUpdate) => void;
+  delta: (delta: MetricsDelta) => void;
+  samples: (samples: LiveSample[]) => void;
+  alert: (alert: AlertEvent) => void;
+}
+
+export interface ClientToServerEvents {
+  // Replaces the previous subscription; an empty list stops the stream
+  subscribe: (request: SubscribeRequest) => void;
+}
+
+// Handshake `auth` sent by dashboards and by agents connecting to a hub's /agent namespace
+export interface ClientAuth {
+  token?: string | null;
+  protocolVersion?: number;
+}
+
+// A history sample an agent queued until the hub acknowledges it. `sample`
+// holds the metric groups the hub stores; `timestamp` is UTC, "YYYY-MM-DD HH:MM:SS".
+export interface BackfillEntry {
+  timestamp: string;
+  sample: Partial<Metrics>;
+}
+
+export interface AgentToHubEvents {
+  metrics: (metrics: Metrics) => void;
+  // Every history sample, oldest first; the hub acknowledges once the batch is stored
+  backfill: (entries: BackfillEntry[], ack: () => void) => void;
+}
+
+export type HubToAgentEvents = Record<never, never>;
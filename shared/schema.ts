@@ -0,0 +1,101 @@
+// Minimal runtime schemas. Each schema checks an unknown value and carries the
+// TypeScript type it accepts, so payload types are derived from the same definition
+// that validates them. Unknown object keys are allowed, so older dashboards keep
+// working against newer backends.
+
+export interface Schema<T> {
+  // Phantom field, only used for type inference
+  readonly _type?: T;
+  // Returns a description of the first problem, or null when the value is valid
+  check(value: unknown, path: string): string | null;
+}
+
+interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+type Flatten<T> = { [K in keyof T]: T[K] };
+type ObjectType<S extends Shape> = Flatten<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const primitive = <T>(type: 'number' | 'string' | 'boolean'): Schema<T> => ({
+  check: (value, path) => (typeof value === type ? null : `${path}: expected ${type}, got ${describe(value)}`)
+});
+
+export const number = () => primitive<number>('number');
+export const string = () => primitive<string>('string');
+export const boolean = () => primitive<boolean>('boolean');
+
+export function literal<const T extends Array<string | number>>(...values: T): Schema<T[number]> {
+  return {
+    check: (value, path) =>
+      values.includes(value as T[number]) ? null : `${path}: expected one of ${values.join(', ')}, got ${String(value)}`
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return { check: (value, path) => (value === null ? null : schema.check(value, path)) };
+}
+
+// Marks an object property that may be missing, e.g. fields added in a later protocol version
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return { optional: true, check: (value, path) => (value === undefined ? null : schema.check(value, path)) };
+}
+
+export function array<T>(schema: Schema<T>): Schema<T[]> {
+  return {
+    check(value, path) {
+      if (!Array.isArray(value)) return `${path}: expected array, got ${describe(value)}`;
+      for (let i = 0; i < value.length; i++) {
+        const error = schema.check(value[i], `${path}[${i}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+  };
+}
+
+export function object<S extends Shape>(shape: S): Schema<ObjectType<S>> {
+  return {
+    check(value, path) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `${path}: expected object, got ${describe(value)}`;
+      }
+      for (const [key, schema] of Object.entries(shape)) {
+        const error = schema.check((value as Record<string, unknown>)[key], `${path}.${key}`);
+        if (error) return error;
+      }
+      return null;
+    }
+  };
+}
+
+export function record<T>(schema: Schema<T>): Schema<Record<string, T>> {
+  return {
+    check(value, path) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `${path}: expected object, got ${describe(value)}`;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const error = schema.check(item, `${path}.${key}`);
+        if (error) return error;
+      }
+      return null;
+    }
+  };
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export function validate<T>(schema: Schema<T>, value: unknown, name = 'value'): ValidationResult<T> {
+  const error = schema.check(value, name);
+  return error ? { ok: false, error } : { ok: true, value: value as T };
+}